@@ -5,13 +5,24 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
 	CallToolRequestSchema,
 	ListToolsRequestSchema,
+	ListResourcesRequestSchema,
+	ReadResourceRequestSchema,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
 	McpError,
 	ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
 import fg from "fast-glob";
 // Standardized on async filesystem operations for better performance
 import fs from "fs/promises";
+import { watch, FSWatcher } from "fs";
 import path from "path";
+import { pathToFileURL } from "url";
+import crypto from "crypto";
+import os from "os";
+import { Worker, isMainThread, parentPort, workerData } from "worker_threads";
+import { execFile } from "child_process";
+import { promisify } from "util";
 import { findUp } from "find-up";
 import ignore from "ignore";
 import { minimatch } from "minimatch";
@@ -23,12 +34,32 @@ import CSharp from "tree-sitter-c-sharp";
 import Php from "tree-sitter-php";
 import Css from "tree-sitter-css";
 import Python from "tree-sitter-python"; // Added for Python support
+import Java from "tree-sitter-java";
+import Go from "tree-sitter-go";
+import Rust from "tree-sitter-rust";
+import Scss from "tree-sitter-scss";
 import yargs from "yargs"; // Added
 import { hideBin } from "yargs/helpers"; // Added
 
+const execFileAsync = promisify(execFile);
+
 // --- Tree-sitter Setup ---
 const parser = new Parser();
 
+// Compiled queries, keyed by file extension and query text. Module-level, so each parse worker
+// thread compiles its own copies once instead of once per file.
+const compiledQueries = new Map<string, Parser.Query>();
+
+function getCompiledQuery(fileExt: string, language: Parser.Language, queryStr: string): Parser.Query {
+	const key = `${fileExt}\n${queryStr}`;
+	let query = compiledQueries.get(key);
+	if (!query) {
+		query = new Parser.Query(language, queryStr);
+		compiledQueries.set(key, query);
+	}
+	return query;
+}
+
 // Helper function to standardize the Tree-sitter language type casting
 function castToParserLanguage(lang: any): Parser.Language {
 	return lang as unknown as Parser.Language;
@@ -40,49 +71,82 @@ const languageMap: { [ext: string]: Parser.Language } = {
 	".ts": castToParserLanguage(TypeScript.typescript),
 	".tsx": castToParserLanguage(TypeScript.tsx),
 	".cs": castToParserLanguage(CSharp),
-	".php": castToParserLanguage(Php),
+	".php": castToParserLanguage(Php.php),
 	".css": castToParserLanguage(Css),
+	".scss": castToParserLanguage(Scss),
 	".py": castToParserLanguage(Python), // Added for Python support
+	".java": castToParserLanguage(Java),
+	".go": castToParserLanguage(Go),
+	".rs": castToParserLanguage(Rust),
+};
+
+// Stylesheet queries, shared by CSS and SCSS (the SCSS grammar extends the CSS one).
+// At-rules without a name of their own (@media, @supports) capture themselves as @name and are
+// named after their prelude, e.g. "@media screen and (max-width: 600px)".
+const cssQueries: { [defType: string]: string } = {
+	selector: `(rule_set (selectors) @name (#not-match? @name "^%")) @selector`,
+	customProperty: `(declaration (property_name) @name (#match? @name "^--") (_) @value) @customProperty`,
+	media: `(media_statement) @name @media`,
+	supports: `(supports_statement) @name @supports`,
+	keyframes: `(keyframes_statement (keyframes_name) @name) @keyframes`,
+	fontFace: `
+		(at_rule
+		  (at_keyword) @keyword (#eq? @keyword "@font-face")
+		  (block (declaration (property_name) @property (#eq? @property "font-family") . (_) @name))
+		) @fontFace`,
 };
 
 // Basic queries - these can be expanded significantly
 // Queries focused on namespace, class, method, function
-const queries: { [langExt: string]: { [defType: string]: string } } = {
+type QuerySet = { [langExt: string]: { [defType: string]: string } };
+
+// Arrow functions, function expressions and generator functions assigned to a JS/TS variable.
+// Only single-declarator statements match, so `const a = 1, f = () => {}` stays two variables.
+const functionValuePattern = `[
+		        (arrow_function parameters: (formal_parameters) @params)
+		        (arrow_function parameter: (identifier) @params)
+		        (function_expression parameters: (formal_parameters) @params)
+		        (generator_function parameters: (formal_parameters) @params)
+		      ]`;
+
+const queries: QuerySet = {
 	".js": {
+		// Parameters are read from the @params node (identifiers, defaults, rest and destructuring patterns).
+		// Functions assigned to variables are functions too, named after the variable.
 		function: `
-			(function_declaration
-				name: (identifier) @name
-				parameters: (formal_parameters
-					(formal_parameter
-						name: (identifier) @param_name
-						)*
-				) @params
-			) @function`,
-		method: `
-			(method_definition
-				name: (property_identifier) @name
-				parameters: (formal_parameters
-					(formal_parameter
-						name: (identifier) @param_name
-						)*
-				) @params
-			) @method`,
+		    [
+		      (function_declaration name: (identifier) @name parameters: (formal_parameters) @params)
+		      (generator_function_declaration name: (identifier) @name parameters: (formal_parameters) @params)
+		      (lexical_declaration . (variable_declarator name: (identifier) @name value: ${functionValuePattern}) .)
+		      (variable_declaration . (variable_declarator name: (identifier) @name value: ${functionValuePattern}) .)
+		    ] @function`,
+		method: `(method_definition name: (_) @name parameters: (formal_parameters) @params) @method`,
 		class: `(class_declaration name: (identifier) @name) @class`,
 		variable: `
 		    [
 		      (lexical_declaration (variable_declarator name: (identifier) @name value: (_)? @value))
 		      (variable_declaration (variable_declarator name: (identifier) @name value: (_)? @value))
 		    ] @variable`,
-		property: `(public_field_definition name: (property_identifier) @name value: (_)? @value) @property`,
+		property: `(field_definition property: (_) @name value: (_)? @value) @property`,
 		// JS doesn't have native enums in the same way TS/C#/PHP do
 		enum: ``,
 		enumMember: ``,
 		call: `(call_expression function: [ (identifier) @call_name (member_expression property: (property_identifier) @call_name) ] ) @call`,
 	},
 	".ts": {
-		function: `(function_declaration name: (_) @name) @function`,
-		method: `(method_definition name: (_) @name) @method`,
-		class: `(class_declaration name: (_) @name) @class`,
+		function: `
+		    [
+		      (function_declaration name: (_) @name parameters: (formal_parameters) @params)
+		      (generator_function_declaration name: (_) @name parameters: (formal_parameters) @params)
+		      (lexical_declaration . (variable_declarator name: (identifier) @name value: ${functionValuePattern}) .)
+		      (variable_declaration . (variable_declarator name: (identifier) @name value: ${functionValuePattern}) .)
+		    ] @function`,
+		method: `
+		    [
+		      (method_definition name: (_) @name parameters: (formal_parameters) @params)
+		      (abstract_method_signature name: (_) @name parameters: (formal_parameters) @params)
+		    ] @method`,
+		class: `[(class_declaration name: (_) @name) (abstract_class_declaration name: (_) @name)] @class`,
 		interface: `(interface_declaration name: (_) @name) @interface`,
 		variable: `
 		    [
@@ -103,13 +167,13 @@ const queries: { [langExt: string]: { [defType: string]: string } } = {
 		      (identifier) @call_name ;; Direct function call: myFunc()
 		      (member_expression property: (property_identifier) @call_name) ;; Member call: obj.method(), console.log()
 		      (super) @call_name ;; super() call
-		      (non_null_expression expression: (member_expression property: (property_identifier) @call_name)) ;; Optional chaining call: obj?.method()
+		      (non_null_expression (member_expression property: (property_identifier) @call_name)) ;; Non-null assertion call: obj.method!()
 		    ]
 		  ) @call`,
 	},
 	".cs": {
 		class: `(class_declaration (modifier)* @modifier name: (identifier) @name) @class`,
-		method: `(method_declaration (modifier)* @modifier name: (identifier) @name) @method`,
+		method: `(method_declaration (modifier)* @modifier name: (identifier) @name parameters: (parameter_list) @params) @method`,
 		namespace: `(namespace_declaration name: (_) @name) @namespace`,
 		variable: `
 		    (local_declaration_statement
@@ -124,63 +188,53 @@ const queries: { [langExt: string]: { [defType: string]: string } } = {
 		call: `(invocation_expression expression: [ (identifier_name) @call_name (member_access_expression name: (identifier_name) @call_name) ] ) @call`,
 	},
 	".php": {
-		function: `
-			(function_definition
-				(visibility_modifier)? @modifier
-				return_type: (_)? @return_type
-				name: (name) @name
-				parameters: (formal_parameters
-					(parameter_declaration
-						type: (_)? @param_type
-						name: (variable_name) @param_name
-					)*
-				)? @params
-			) @function`,
-		class: `(class_declaration (modifier)* @modifier name: (name) @name) @class`,
+		function: `(function_definition name: (name) @name parameters: (formal_parameters) @params return_type: (_)? @return_type) @function`,
+		class: `(class_declaration [(final_modifier) (abstract_modifier) (readonly_modifier)]* @modifier name: (name) @name) @class`,
 		method: `
 			(method_declaration
-				(member_modifier)* @modifier
-				function_definition
-					return_type: (_)? @return_type
-					name: (name) @name
-					parameters: (formal_parameters
-						(parameter_declaration
-							type: (_)? @param_type
-							name: (variable_name) @param_name
-						)*
-					)? @params
-				) @method`,
+				[(visibility_modifier) (static_modifier) (final_modifier) (abstract_modifier) (readonly_modifier)]* @modifier
+				name: (name) @name
+				parameters: (formal_parameters) @params
+				return_type: (_)? @return_type
+			) @method`,
 		namespace: `(namespace_definition name: (namespace_name) @name) @namespace`,
 		// PHP local variables are complex to capture reliably with Tree-sitter without excessive noise
 		variable: ``,
 		property: `
 		    (property_declaration
-		      (member_modifier)* @modifier
+		      [(visibility_modifier) (static_modifier) (readonly_modifier) (var_modifier)]* @modifier
 		      type: (_)? @dataType
-		      (property_element name: (variable_name) @name value: (_)? @value)
+		      (property_element name: (variable_name) @name default_value: (_)? @value)
 		    ) @property`,
 		enum: `(enum_declaration name: (name) @name) @enum`, // PHP 8.1+
 		enumMember: `(enum_case name: (name) @name value: (_)? @value) @enumMember`, // PHP 8.1+
 		call: `(function_call_expression function: [ (name) @call_name (qualified_name) @call_name ] ) @call`,
 		// Also consider method calls: (member_call_expression name: (name) @call_name)
 	},
-	// CSS queries removed as they don't fit namespace/class/method/function
-	".css": {},
+	".css": cssQueries,
+	".scss": {
+		...cssQueries,
+		variable: `(declaration (property_name) @name (#match? @name "^[$]") (_) @value) @variable`,
+		mixin: `(mixin_statement name: (identifier) @name (parameters)? @params) @mixin`,
+		function: `(function_statement name: (identifier) @name (parameters)? @params) @function`,
+		placeholder: `(rule_set (selectors (placeholder) @name)) @placeholder`,
+		// @include is how mixins are "called"
+		call: `[ (call_expression (function_name) @call_name) (include_statement (identifier) @call_name) ] @call`,
+	},
 	".py": { // Added for Python support
 		function: `
 			(function_definition
 			  name: (identifier) @name
-			  parameters: (parameters . (_)* @params)? ;; Captures params block
+			  parameters: (parameters) @params
 			) @function`,
 		// Note: This query captures all functions. Differentiating methods (functions inside classes)
 		// would typically require checking the parent node during parsing logic.
 		method: `
 			(function_definition
 			  name: (identifier) @name
-			  parameters: (parameters . (_)* @params)?
+			  parameters: (parameters) @params
 			) @method`,
 		class: `(class_definition name: (identifier) @name) @class`,
-		decorator: `(decorator [ (identifier) @name (dotted_name) @name ]) @decorator`,
 		// Captures module-level assignments and simple class-level assignments
 		variable: `
 			[
@@ -189,17 +243,338 @@ const queries: { [langExt: string]: { [defType: string]: string } } = {
 			] @variable`,
 		// Query for individual parameters if needed later:
 		// parameter: `(parameters (typed_parameter name: (identifier) @name type: (_)? @type)) @parameter`
-		call: `(call function: [ (identifier) @call_name (attribute name: (identifier) @call_name) ] ) @call`,
+		call: `(call function: [ (identifier) @call_name (attribute attribute: (identifier) @call_name) ] ) @call`,
+	},
+	".java": {
+		package: `(package_declaration [ (identifier) (scoped_identifier) ] @name) @package`,
+		class: `
+			[
+			  (class_declaration (modifiers [ "public" "protected" "private" "static" "abstract" "final" "sealed" "non-sealed" "strictfp" ]* @modifier)? name: (identifier) @name)
+			  (record_declaration (modifiers [ "public" "protected" "private" "static" "final" "strictfp" ]* @modifier)? name: (identifier) @name parameters: (formal_parameters) @params)
+			] @class`,
+		interface: `(interface_declaration (modifiers [ "public" "protected" "private" "static" "abstract" "sealed" "non-sealed" "strictfp" ]* @modifier)? name: (identifier) @name) @interface`,
+		// Constructors are reported as methods named after their class
+		method: `
+			[
+			  (method_declaration
+			    (modifiers [ "public" "protected" "private" "static" "abstract" "final" "synchronized" "native" "default" "strictfp" ]* @modifier)?
+			    type: (_) @return_type
+			    name: (identifier) @name
+			    parameters: (formal_parameters) @params)
+			  (constructor_declaration
+			    (modifiers [ "public" "protected" "private" ]* @modifier)?
+			    name: (identifier) @name
+			    parameters: (formal_parameters) @params)
+			] @method`,
+		variable: `(local_variable_declaration type: (_) @dataType declarator: (variable_declarator name: (identifier) @name value: (_)? @value)) @variable`,
+		property: `
+			(field_declaration
+			  (modifiers [ "public" "protected" "private" "static" "final" "transient" "volatile" ]* @modifier)?
+			  type: (_) @dataType
+			  declarator: (variable_declarator name: (identifier) @name value: (_)? @value)
+			) @property`,
+		enum: `(enum_declaration (modifiers [ "public" "protected" "private" "static" "strictfp" ]* @modifier)? name: (identifier) @name) @enum`,
+		enumMember: `(enum_constant name: (identifier) @name arguments: (_)? @value) @enumMember`,
+		call: `(method_invocation name: (identifier) @call_name) @call`,
+	},
+	".go": {
+		package: `(package_clause (package_identifier) @name) @package`,
+		struct: `(type_spec name: (type_identifier) @name type: (struct_type)) @struct`,
+		interface: `(type_spec name: (type_identifier) @name type: (interface_type)) @interface`,
+		function: `
+			(function_declaration
+			  name: (identifier) @name
+			  parameters: (parameter_list) @params
+			  result: (_)? @return_type
+			) @function`,
+		// Methods with receivers are declared at top level; interface method specs nest under their interface
+		method: `
+			[
+			  (method_declaration
+			    receiver: (parameter_list (parameter_declaration type: (_) @dataType))
+			    name: (field_identifier) @name
+			    parameters: (parameter_list) @params
+			    result: (_)? @return_type)
+			  (method_elem
+			    name: (field_identifier) @name
+			    parameters: (parameter_list) @params
+			    result: (_)? @return_type)
+			] @method`,
+		typeAlias: `(type_alias name: (type_identifier) @name type: (_) @dataType) @typeAlias`,
+		// Package-level variables and constants only, locals of function bodies aren't definitions
+		variable: `
+			[
+			  (source_file (var_declaration (var_spec name: (identifier) @name type: (_)? @dataType value: (_)? @value) @variable))
+			  (source_file (var_declaration (var_spec_list (var_spec name: (identifier) @name type: (_)? @dataType value: (_)? @value) @variable)))
+			  (source_file (const_declaration (const_spec name: (identifier) @name type: (_)? @dataType value: (_)? @value) @variable))
+			]`,
+		property: `(field_declaration name: (field_identifier) @name type: (_) @dataType) @property`,
+		call: `(call_expression function: [ (identifier) @call_name (selector_expression field: (field_identifier) @call_name) ] ) @call`,
+	},
+	".rs": {
+		module: `(mod_item (visibility_modifier)? @modifier name: (identifier) @name) @module`,
+		struct: `
+			[
+			  (struct_item (visibility_modifier)? @modifier name: (type_identifier) @name)
+			  (union_item (visibility_modifier)? @modifier name: (type_identifier) @name)
+			] @struct`,
+		trait: `(trait_item (visibility_modifier)? @modifier name: (type_identifier) @name) @trait`,
+		typeAlias: `(type_item (visibility_modifier)? @modifier name: (type_identifier) @name type: (_) @dataType) @typeAlias`,
+		// impl blocks group methods under the implemented type; the implemented trait (if any) is the dataType
+		impl: `(impl_item trait: (_)? @dataType type: (_) @name) @impl`,
+		function: `
+			[
+			  (source_file (function_item (visibility_modifier)? @modifier (function_modifiers)? @modifier name: (identifier) @name parameters: (parameters) @params return_type: (_)? @return_type) @function)
+			  (mod_item body: (declaration_list (function_item (visibility_modifier)? @modifier (function_modifiers)? @modifier name: (identifier) @name parameters: (parameters) @params return_type: (_)? @return_type) @function))
+			]`,
+		method: `
+			[
+			  (impl_item body: (declaration_list (function_item (visibility_modifier)? @modifier (function_modifiers)? @modifier name: (identifier) @name parameters: (parameters) @params return_type: (_)? @return_type) @method))
+			  (trait_item body: (declaration_list [
+			    (function_item (visibility_modifier)? @modifier (function_modifiers)? @modifier name: (identifier) @name parameters: (parameters) @params return_type: (_)? @return_type)
+			    (function_signature_item (visibility_modifier)? @modifier (function_modifiers)? @modifier name: (identifier) @name parameters: (parameters) @params return_type: (_)? @return_type)
+			  ] @method))
+			]`,
+		variable: `
+			[
+			  (const_item (visibility_modifier)? @modifier name: (identifier) @name type: (_) @dataType value: (_)? @value)
+			  (static_item (visibility_modifier)? @modifier name: (identifier) @name type: (_) @dataType value: (_)? @value)
+			  (let_declaration pattern: (identifier) @name type: (_)? @dataType value: (_)? @value)
+			] @variable`,
+		property: `(field_declaration (visibility_modifier)? @modifier name: (field_identifier) @name type: (_) @dataType) @property`,
+		enum: `(enum_item (visibility_modifier)? @modifier name: (type_identifier) @name) @enum`,
+		enumMember: `(enum_variant name: (identifier) @name value: (_)? @value) @enumMember`,
+		call: `
+			(call_expression
+			  function: [
+			    (identifier) @call_name ;; helper()
+			    (field_expression field: (field_identifier) @call_name) ;; value.method()
+			    (scoped_identifier name: (identifier) @call_name) ;; Type::function()
+			  ]
+			) @call`,
 	},
 };
 
 // Default file patterns
 const defaultFilePatterns = [
 	"**/*.js", "**/*.jsx", "**/*.ts", "**/*.tsx",
-	"**/*.cs", "**/*.php", "**/*.css",
-	"**/*.py" // Added for Python support
+	"**/*.cs", "**/*.php", "**/*.css", "**/*.scss",
+	"**/*.py", // Added for Python support
+	"**/*.java", "**/*.go", "**/*.rs",
 ];
 
+// --- Custom Queries ---
+// Projects can add or replace queries with .scm files in .code-scanner/queries/<ext>/<defType>.scm
+// (e.g. .code-scanner/queries/ts/typeAlias.scm). A file named after a built-in definition type
+// replaces that query, any other name adds a new definition type.
+const CUSTOM_QUERIES_DIR = ".code-scanner";
+
+// Error type and position out of tree-sitter's "Query error of type TSQueryErrorField at position 26"
+function describeQueryError(queryStr: string, error: any): string {
+	const message: string = error?.message || String(error);
+	const match = message.match(/of type (\w+) at position (\d+)/);
+	if (!match) return message;
+	const before = queryStr.slice(0, Number(match[2]));
+	const line = before.split('\n').length;
+	const column = before.length - before.lastIndexOf('\n');
+	return `${match[1].replace(/^TSQueryError/, '')} error at line ${line}, column ${column}`;
+}
+
+// Loads the project's query files on top of the built-in queries. Every query is compiled here,
+// so a broken file fails the scan with its path and position instead of inside the parse loop.
+async function loadQuerySet(targetDir: string): Promise<QuerySet> {
+	const configDir = await findUp(CUSTOM_QUERIES_DIR, { cwd: targetDir, type: "directory" });
+	if (!configDir) return queries;
+	const queriesDir = path.join(configDir, "queries");
+	let extDirs: string[];
+	try {
+		extDirs = await fs.readdir(queriesDir);
+	} catch {
+		return queries; // No queries directory, nothing to override
+	}
+
+	const querySet: QuerySet = {};
+	for (const ext in queries) querySet[ext] = { ...queries[ext] };
+	for (const extDir of extDirs.sort()) {
+		const fileExt = `.${extDir}`;
+		const language = languageMap[fileExt];
+		if (!language) {
+			console.warn(`Warning: Ignoring ${path.join(queriesDir, extDir)}, no parser for '${fileExt}' files.`);
+			continue;
+		}
+		const queryFiles = (await fs.readdir(path.join(queriesDir, extDir))).filter(file => file.endsWith(".scm")).sort();
+		for (const queryFile of queryFiles) {
+			const queryPath = path.join(queriesDir, extDir, queryFile);
+			const defType = path.basename(queryFile, ".scm");
+			if (!/^[A-Za-z_][\w-]*$/.test(defType)) {
+				throw new Error(`Invalid query file name ${queryPath}: the name is used as the definition type and must be an identifier.`);
+			}
+			const queryStr = await fs.readFile(queryPath, "utf-8");
+			try {
+				new Parser.Query(language, queryStr);
+			} catch (error: any) {
+				throw new Error(`Invalid query in ${queryPath}: ${describeQueryError(queryStr, error)}`);
+			}
+			const captures = new Set(Array.from(queryStr.matchAll(/@([\w.-]+)/g), m => m[1]));
+			if (defType === "call") {
+				if (!captures.has("call_name")) {
+					throw new Error(`Invalid query in ${queryPath}: call queries need a @call_name capture.`);
+				}
+			} else if (!captures.has("name") || !(captures.has(defType) || captures.has("definition"))) {
+				throw new Error(`Invalid query in ${queryPath}: expected a @name capture and a @${defType} (or @definition) capture for the definition node.`);
+			}
+			querySet[fileExt] ??= {}; // .tsx/.jsx have a parser but no built-in queries
+			const replaced = querySet[fileExt][defType] !== undefined;
+			querySet[fileExt][defType] = queryStr;
+			console.error(`${replaced ? "Replaced" : "Added"} '${defType}' query for ${fileExt} files from ${queryPath}`);
+		}
+	}
+	return querySet;
+}
+
+// --- Ignore Rules ---
+// Git-compatible ignore resolution: .git/info/exclude, then every .gitignore from the repository root
+// down to the file (deeper files win, patterns are relative to their own directory), then the scanner's
+// built-in rules. A .codescannerignore is read right after the .gitignore of the same directory.
+const CODE_SCANNER_IGNORE_FILE = ".codescannerignore";
+const ignoreFileNames = [".gitignore", CODE_SCANNER_IGNORE_FILE];
+
+interface IgnoreSource {
+	baseDir: string; // Directory the patterns are relative to, relative to the ignore root ('' = root)
+	file: string; // Reported source, relative to the scanned directory
+	ig: ReturnType<typeof ignore>;
+}
+
+// The rule that excluded a path
+interface IgnoreRuleMatch {
+	source: string; // Ignore file (relative to the scanned directory), "excludePaths" or "built-in"
+	line?: number;
+	pattern: string;
+}
+
+// Returns the rule excluding a path relative to the scanned directory, or undefined if it isn't excluded
+type IgnoreMatcher = (relativePath: string) => IgnoreRuleMatch | undefined;
+
+// The repository root (.git directory, or .git file for worktrees and submodules) and its git directory
+async function findGitRepository(startDir: string): Promise<{ root: string; gitDir: string } | undefined> {
+	const root = await findUp(async directory => {
+		try {
+			await fs.stat(path.join(directory, ".git"));
+			return directory;
+		} catch {
+			return undefined;
+		}
+	}, { cwd: startDir, type: "directory" });
+	if (!root) return undefined;
+	const dotGit = path.join(root, ".git");
+	if ((await fs.stat(dotGit)).isDirectory()) return { root, gitDir: dotGit };
+	// "gitdir: <path>" file; linked worktrees keep info/exclude in the common git directory
+	const match = (await fs.readFile(dotGit, "utf-8")).match(/^gitdir:\s*(.+)$/m);
+	if (!match) return undefined;
+	let gitDir = path.resolve(root, match[1].trim());
+	try {
+		gitDir = path.resolve(gitDir, (await fs.readFile(path.join(gitDir, "commondir"), "utf-8")).trim());
+	} catch {
+		// Not a linked worktree
+	}
+	return { root, gitDir };
+}
+
+async function readIgnoreSource(filePath: string, baseDir: string, reportedFile: string): Promise<IgnoreSource | undefined> {
+	let content: string;
+	try {
+		content = await fs.readFile(filePath, "utf-8");
+	} catch (error: any) {
+		if (error.code !== 'ENOENT') console.warn(`Warning: Could not read ignore file ${filePath}`);
+		return undefined;
+	}
+	const ig = ignore();
+	// One rule per line, marked with its line number for reporting
+	content.split(/\r?\n/).forEach((pattern, index) => ig.add({ pattern, mark: String(index + 1) }));
+	return { baseDir, file: reportedFile, ig };
+}
+
+// Loads all ignore rules that apply to files in targetDir
+async function getIgnoreMatcher(targetDir: string): Promise<IgnoreMatcher> {
+	// Outside a repository, the nearest .gitignore above the scanned directory marks the root
+	const repository = await findGitRepository(targetDir);
+	const nearestGitignore = repository ? undefined : await findUp(".gitignore", { cwd: targetDir });
+	const root = repository?.root || (nearestGitignore ? path.dirname(nearestGitignore) : targetDir);
+	const toReported = (absolutePath: string) => path.relative(targetDir, absolutePath).replace(/\\/g, '/');
+	const toBaseDir = (absoluteDir: string) => path.relative(root, absoluteDir).replace(/\\/g, '/');
+
+	// Ignore files in the scanned directory's ancestors up to the root, and anywhere below it
+	const ignoreFiles: string[] = [];
+	for (let directory = path.dirname(targetDir); directory.startsWith(root) && directory !== targetDir; directory = path.dirname(directory)) {
+		ignoreFileNames.forEach(name => ignoreFiles.push(path.join(directory, name)));
+		if (directory === root) break;
+	}
+	const nestedIgnoreFiles = await fg(ignoreFileNames.map(name => `**/${name}`), {
+		dot: true, onlyFiles: true, absolute: true, cwd: targetDir,
+		ignore: ['**/node_modules/**', '**/.git/**'],
+	});
+	ignoreFiles.push(...nestedIgnoreFiles.map(file => path.normalize(file)));
+
+	// Shallower directories first so deeper rules take precedence, .codescannerignore after .gitignore
+	const depth = (file: string) => path.dirname(file).split(path.sep).length;
+	ignoreFiles.sort((a, b) =>
+		depth(a) - depth(b) || ignoreFileNames.indexOf(path.basename(a)) - ignoreFileNames.indexOf(path.basename(b))
+	);
+
+	const sources: IgnoreSource[] = [];
+	if (repository) {
+		const excludeFile = path.join(repository.gitDir, "info", "exclude");
+		const source = await readIgnoreSource(excludeFile, "", toReported(excludeFile));
+		if (source) sources.push(source);
+	}
+	for (const file of ignoreFiles) {
+		const source = await readIgnoreSource(file, toBaseDir(path.dirname(file)), toReported(file));
+		if (source) sources.push(source);
+	}
+	// Always ignore node_modules and .git directories, and the scanner's own parse cache
+	const builtIn = ignore().add(["node_modules/", ".git/", `${PARSE_CACHE_DIR}/`]);
+	sources.push({ baseDir: "", file: "built-in", ig: builtIn });
+	console.error(`Using ignore files: ${sources.length > 1 ? sources.slice(0, -1).map(source => source.file).join(', ') : 'None found'}`);
+
+	// Decides a single path (relative to the root) against all sources; the last matching rule wins
+	const testPath = (rootPath: string, isDirectory: boolean): IgnoreRuleMatch | undefined => {
+		let match: IgnoreRuleMatch | undefined;
+		for (const source of sources) {
+			if (source.baseDir && !rootPath.startsWith(`${source.baseDir}/`)) continue;
+			const sourcePath = (source.baseDir ? rootPath.slice(source.baseDir.length + 1) : rootPath) + (isDirectory ? '/' : '');
+			const result = source.ig.test(sourcePath);
+			if (result.ignored) {
+				const line = result.rule?.mark ? Number(result.rule.mark) : undefined;
+				match = { source: source.file, line, pattern: result.rule?.pattern || '' };
+			} else if (result.unignored) {
+				match = undefined;
+			}
+		}
+		return match;
+	};
+
+	// Like git, a file inside an excluded directory can't be re-included by a later rule
+	const directoryMatches = new Map<string, IgnoreRuleMatch | undefined>();
+	return (relativePath: string) => {
+		const rootPath = path.relative(root, path.resolve(targetDir, relativePath)).replace(/\\/g, '/');
+		const segments = rootPath.split('/');
+		for (let i = 1; i < segments.length; i++) {
+			const directory = segments.slice(0, i).join('/');
+			if (!directoryMatches.has(directory)) {
+				directoryMatches.set(directory, testPath(directory, true));
+			}
+			const match = directoryMatches.get(directory);
+			if (match) return match;
+		}
+		return testPath(rootPath, false);
+	};
+}
+
+// Formats an exclusion the way `git check-ignore -v` does
+function describeIgnoreRule(match: IgnoreRuleMatch): string {
+	return `${match.source}${match.line !== undefined ? `:${match.line}` : ''}:${match.pattern}`;
+}
+
 // --- Helper Functions ---
 
 // Helper function to escape special characters in regex patterns
@@ -207,28 +582,34 @@ function escapeRegExp(string: string): string {
 	return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
 }
 
-async function findGitignore(startDir: string): Promise<string | undefined> {
-	return findUp(".gitignore", { cwd: startDir });
+// Removed findFilesRecursively function
+
+// Checks a path (relative to the scanned directory, forward slashes) against excludePaths glob patterns
+function matchesExcludePaths(relativePath: string, excludePatterns: string[]): boolean {
+	return excludePatterns.some(pattern => minimatch(relativePath, pattern, { dot: true }));
 }
 
-async function getIgnoreFilter(
-	gitignorePath: string | undefined
-): Promise<(filePath: string) => boolean> {
-	const ig = ignore();
-	if (gitignorePath) {
-		try {
-			const gitignoreContent = await fs.readFile(gitignorePath, "utf-8");
-			ig.add(gitignoreContent);
-		} catch (err) {
-			console.warn(`Warning: Could not read .gitignore at ${gitignorePath}`);
+// Returns the ignore file rule or excludePaths pattern that keeps a path (relative to targetDir) out of scans
+function explainExclusion(ignoreMatcher: IgnoreMatcher, relativePath: string, excludePatterns: string[]): IgnoreRuleMatch | undefined {
+	const ignoreMatch = ignoreMatcher(relativePath);
+	if (ignoreMatch) return ignoreMatch;
+	const excludePattern = excludePatterns.find(pattern => minimatch(relativePath, pattern, { dot: true }));
+	return excludePattern !== undefined ? { source: "excludePaths", pattern: excludePattern } : undefined;
+}
+
+// Reports for each path (relative to the directory) whether and why scans skip it, one line per path
+async function checkIgnore(directory: string, paths: string[], excludePatterns: string[] = []): Promise<string> {
+	const targetDir = path.resolve(process.cwd(), directory);
+	const ignoreMatcher = await getIgnoreMatcher(targetDir);
+	return paths.map(filePath => {
+		const relativePath = path.relative(targetDir, path.resolve(targetDir, filePath)).replace(/\\/g, '/');
+		if (relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+			return `${filePath}: outside the scanned directory`;
 		}
-	}
-	// Always ignore node_modules and .git directories
-	ig.add("node_modules/"); // Add trailing slash for directory
-	ig.add(".git/");       // Add trailing slash for directory
-	return (filePath: string) => !ig.ignores(filePath);
+		const exclusion = explainExclusion(ignoreMatcher, relativePath, excludePatterns);
+		return exclusion ? `${relativePath}: excluded by ${describeIgnoreRule(exclusion)}` : `${relativePath}: not excluded`;
+	}).join('\n');
 }
-// Removed findFilesRecursively function
 
 
 interface Parameter {
@@ -242,7 +623,7 @@ interface Definition {
 	name: string;
 	startLine: number;
 	endLine: number;
-	modifier?: string;
+	modifiers?: string[]; // Normalized modifier keywords in source order, e.g. ["export", "private", "static", "async"]
 	dataType?: string;
 	value?: string;
 	parentId?: string; // Reference to parent element
@@ -250,9 +631,23 @@ interface Definition {
 	parameters?: Parameter[]; // Method/function parameters
 	returnType?: string; // Return type for methods/functions
 	complexity?: number; // Cyclomatic complexity (optional)
+	cognitiveComplexity?: number; // Functions/methods only, like the metrics below
+	nestingDepth?: number; // Deepest nesting of control structures
+	halsteadVolume?: number;
+	maintainabilityIndex?: number; // 0-100, higher is easier to maintain
 	parameterCount?: number; // Number of parameters (optional)
 	loc?: number; // Lines of Code (optional)
 	calls?: string[]; // Array of names called by this definition (optional)
+	change?: ChangeKind; // Set by --since scans for definitions overlapping changed lines
+	exportedFrom?: ExportReference[]; // Set by exportedOnly scans for exported top-level definitions
+	doc?: DocComment; // Leading doc comment or docstring
+	signature?: string; // Normalized declaration of callables, e.g. "static async load<T>(id: string, ...rest: T[]): Promise<T>"
+	annotations?: Annotation[]; // Decorators, attributes and annotations in source order
+}
+
+interface Annotation {
+	name: string; // As written without `@`/`[`/`#[`, e.g. "HttpGet", "pytest.fixture", "serde::skip"
+	arguments?: string; // Raw argument text without the enclosing parentheses
 }
 
 interface FilterOptions {
@@ -260,10 +655,13 @@ interface FilterOptions {
 	excludeTypes?: string[]; // Element types to exclude
 	includeModifiers?: string[]; // Modifiers to include (e.g., 'public', 'private')
 	excludeModifiers?: string[]; // Modifiers to exclude
+	hasAnnotation?: string[]; // Annotation names to include (e.g., 'HttpGet', '@pytest.fixture')
 	namePattern?: string; // Regex pattern to match element names
 	excludeNamePattern?: string; // Regex pattern to exclude element names
 	includePaths?: string[]; // Additional file path patterns to include
 	excludePaths?: string[]; // File path patterns to exclude
+	sinceRef?: string; // Only scan files changed since this git ref
+	exportedOnly?: boolean; // Only keep the public API (exported/public definitions)
 	// Metric filters
 	maxComplexity?: number;
 	minComplexity?: number;
@@ -271,53 +669,767 @@ interface FilterOptions {
 	minParameters?: number;
 }
 
-// Helper function for basic Cyclomatic Complexity calculation
-function calculateComplexity(node: Parser.SyntaxNode | null): number {
-	if (!node) return 1; // Base complexity
-
-	let complexity = 1; // Start with 1 for the single entry point
-
-	// List of node types that represent decision points (can be expanded)
-	const decisionPointTypes = new Set([
-		// Common
-		'if_statement', 'while_statement', 'for_statement', 'for_in_statement',
-		'switch_case', 'case_statement', 'switch_default', // Switch parts
-		'conditional_expression', // ternary operator
-		'binary_expression', // Often includes &&, || - check operator if needed
-		'boolean_operator', // Python 'and', 'or'
-		'catch_clause', // Try-catch adds a path
-		// Language Specific (Examples)
-		'foreach_statement', // C#, PHP
-		'case_clause', // Python match-case
-	]);
+// --- Complexity Metrics ---
+// Per-callable metrics read from the syntax tree: cyclomatic complexity (McCabe), cognitive complexity
+// (SonarSource), maximum nesting depth of control structures, Halstead volume and maintainability index.
+
+// Node types of each language's control structures
+interface ComplexityRules {
+	branches: string[]; // if statements/expressions
+	elseIfs: string[]; // Separate else-if nodes (Python elif, PHP elseif)
+	elses: string[]; // Else nodes; Java, C# and Go have an `alternative` block instead
+	loops: string[];
+	switches: string[]; // switch/match as a whole
+	cases: string[]; // Case labels and match arms, except default/wildcard ones
+	catches: string[];
+	conditionals: string[]; // Ternary expressions
+	logicalExpressions: string[]; // Nodes that hold a logical operator token
+	functions: string[]; // Nested functions and lambdas, which raise the nesting level
+	decisions: string[]; // Further decision points counted by cyclomatic complexity only
+	jumpLabels: string[]; // Label nodes of `break label`/`continue label`
+}
 
-	// Recursive traversal
-	function traverse(currentNode: Parser.SyntaxNode) {
-		if (decisionPointTypes.has(currentNode.type)) {
-			// More specific check for binary expressions (&&, ||) if needed
-			if (currentNode.type === 'binary_expression' || currentNode.type === 'boolean_operator') {
-				const operator = currentNode.childForFieldName?.('operator')?.text; // Adjust field name if needed
-				if (operator === '&&' || operator === '||' || operator === 'and' || operator === 'or') {
-					complexity++;
-				}
+const jsComplexityRules: ComplexityRules = {
+	branches: ['if_statement'],
+	elseIfs: [],
+	elses: ['else_clause'],
+	loops: ['for_statement', 'for_in_statement', 'while_statement', 'do_statement'],
+	switches: ['switch_statement'],
+	cases: ['switch_case'],
+	catches: ['catch_clause'],
+	conditionals: ['ternary_expression'],
+	logicalExpressions: ['binary_expression'],
+	functions: ['arrow_function', 'function_expression', 'function', 'function_declaration', 'generator_function', 'generator_function_declaration'],
+	decisions: [],
+	jumpLabels: ['statement_identifier'],
+};
+
+const complexityRules: { [fileExt: string]: ComplexityRules } = {
+	".js": jsComplexityRules,
+	".jsx": jsComplexityRules,
+	".ts": jsComplexityRules,
+	".tsx": jsComplexityRules,
+	".py": {
+		branches: ['if_statement'],
+		elseIfs: ['elif_clause'],
+		elses: ['else_clause'],
+		loops: ['for_statement', 'while_statement'],
+		switches: ['match_statement'],
+		cases: ['case_clause'],
+		catches: ['except_clause'],
+		conditionals: ['conditional_expression'],
+		logicalExpressions: ['boolean_operator'],
+		functions: ['lambda', 'function_definition'],
+		decisions: ['for_in_clause', 'if_clause'], // Comprehensions
+		jumpLabels: [],
+	},
+	".java": {
+		branches: ['if_statement'],
+		elseIfs: [],
+		elses: [],
+		loops: ['for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement'],
+		switches: ['switch_expression', 'switch_statement'],
+		cases: ['switch_label'],
+		catches: ['catch_clause'],
+		conditionals: ['ternary_expression'],
+		logicalExpressions: ['binary_expression'],
+		functions: ['lambda_expression'],
+		decisions: [],
+		jumpLabels: ['identifier'],
+	},
+	".cs": {
+		branches: ['if_statement'],
+		elseIfs: [],
+		elses: [],
+		loops: ['for_statement', 'foreach_statement', 'while_statement', 'do_statement'],
+		switches: ['switch_statement', 'switch_expression'],
+		cases: ['switch_section', 'switch_expression_arm'],
+		catches: ['catch_clause'],
+		conditionals: ['conditional_expression'],
+		logicalExpressions: ['binary_expression'],
+		functions: ['lambda_expression', 'anonymous_method_expression', 'local_function_statement'],
+		decisions: [],
+		jumpLabels: [],
+	},
+	".go": {
+		branches: ['if_statement'],
+		elseIfs: [],
+		elses: [],
+		loops: ['for_statement'],
+		switches: ['expression_switch_statement', 'type_switch_statement', 'select_statement'],
+		cases: ['expression_case', 'type_case', 'communication_case'],
+		catches: [],
+		conditionals: [],
+		logicalExpressions: ['binary_expression'],
+		functions: ['func_literal'],
+		decisions: [],
+		jumpLabels: ['label_name'],
+	},
+	".rs": {
+		branches: ['if_expression'],
+		elseIfs: [],
+		elses: ['else_clause'],
+		loops: ['for_expression', 'while_expression', 'loop_expression'],
+		switches: ['match_expression'],
+		cases: ['match_arm'],
+		catches: [],
+		conditionals: [],
+		logicalExpressions: ['binary_expression'],
+		functions: ['closure_expression', 'function_item'],
+		decisions: [],
+		jumpLabels: ['label'],
+	},
+	".php": {
+		branches: ['if_statement'],
+		elseIfs: ['else_if_clause'],
+		elses: ['else_clause'],
+		loops: ['for_statement', 'foreach_statement', 'while_statement', 'do_statement'],
+		switches: ['switch_statement', 'match_expression'],
+		cases: ['case_statement', 'match_conditional_expression'],
+		catches: ['catch_clause'],
+		conditionals: ['conditional_expression'],
+		logicalExpressions: ['binary_expression'],
+		functions: ['anonymous_function', 'arrow_function', 'anonymous_function_creation_expression'],
+		decisions: [],
+		jumpLabels: [],
+	},
+	".scss": {
+		branches: ['if_statement'],
+		elseIfs: ['else_if_clause'],
+		elses: ['else_clause'],
+		loops: ['each_statement', 'for_statement', 'while_statement'],
+		switches: [],
+		cases: [],
+		catches: [],
+		conditionals: [],
+		logicalExpressions: [],
+		functions: [],
+		decisions: [],
+		jumpLabels: [],
+	},
+};
+
+const logicalOperatorTokens = new Set(['&&', '||', '??', 'and', 'or']);
+
+interface CallableMetrics {
+	complexity: number;
+	cognitiveComplexity: number;
+	nestingDepth: number;
+	halsteadVolume: number;
+	maintainabilityIndex: number;
+}
+
+function getLogicalOperator(node: Parser.SyntaxNode): string | undefined {
+	return node.children.find(child => !child.isNamed && logicalOperatorTokens.has(child.type))?.type;
+}
+
+// `default:`, `_ =>`, `case _:` and C# discards don't add a path
+function isDefaultCase(node: Parser.SyntaxNode): boolean {
+	if (node.children.some(child => child.type === 'default' || child.type === 'discard')) return true;
+	const pattern = node.childForFieldName('pattern') || node.firstNamedChild;
+	return pattern?.text.trim() === '_';
+}
+
+function calculateComplexityMetrics(definitionNode: Parser.SyntaxNode, fileExt: string, name: string): Omit<CallableMetrics, 'halsteadVolume' | 'maintainabilityIndex'> {
+	const rules = complexityRules[fileExt];
+	if (!rules) return { complexity: 1, cognitiveComplexity: 0, nestingDepth: 0 };
+	const has = (types: string[], node: Parser.SyntaxNode | null | undefined) => !!node && types.includes(node.type);
+	let complexity = 1;
+	let cognitiveComplexity = 0;
+	let nestingDepth = 0;
+
+	// `else if`: an if that is the alternative of another if, directly or inside an else node
+	const isElseIf = (node: Parser.SyntaxNode) => {
+		const parent = node.parent;
+		if (!parent) return false;
+		if (has(rules.elses, parent)) return true;
+		return has(rules.branches, parent) && isSameNode(parent.childForFieldName('alternative'), node);
+	};
+	// Structures that add 1 plus the current nesting level and nest their contents
+	const nestedIncrement = (nesting: number) => {
+		cognitiveComplexity += 1 + nesting;
+		nestingDepth = Math.max(nestingDepth, nesting + 1);
+		return nesting + 1;
+	};
+
+	const visit = (node: Parser.SyntaxNode, nesting: number) => {
+		const type = node.type;
+		if (commentNodeTypes.has(type)) return;
+		let childNesting = nesting;
+		if (rules.branches.includes(type)) {
+			complexity++;
+			if (isElseIf(node)) {
+				cognitiveComplexity++;
 			} else {
+				childNesting = nestedIncrement(nesting);
+			}
+			const alternative = node.childForFieldName('alternative');
+			if (alternative && !has(rules.branches, alternative) && !has(rules.elses, alternative) && !has(rules.elseIfs, alternative)) {
+				cognitiveComplexity++; // `else` block without an else node
+			}
+		} else if (rules.elseIfs.includes(type)) {
+			complexity++;
+			cognitiveComplexity++;
+		} else if (rules.elses.includes(type)) {
+			const content = node.namedChildren.filter(child => !commentNodeTypes.has(child.type));
+			if (!(content.length === 1 && has(rules.branches, content[0]))) cognitiveComplexity++;
+		} else if (rules.loops.includes(type) || rules.catches.includes(type) || rules.conditionals.includes(type)) {
+			complexity++;
+			childNesting = nestedIncrement(nesting);
+		} else if (rules.switches.includes(type)) {
+			childNesting = nestedIncrement(nesting);
+		} else if (rules.cases.includes(type)) {
+			if (!isDefaultCase(node)) complexity++;
+		} else if (rules.decisions.includes(type)) {
+			complexity++;
+		} else if (rules.logicalExpressions.includes(type)) {
+			const operator = getLogicalOperator(node);
+			if (operator) {
 				complexity++;
+				// Sequences of the same operator count once: a && b && c
+				const parent = node.parent;
+				if (!(parent && rules.logicalExpressions.includes(parent.type) && getLogicalOperator(parent) === operator)) cognitiveComplexity++;
+			}
+		} else if (rules.functions.includes(type)) {
+			childNesting = nesting + 1;
+		} else if (type === 'goto_statement') {
+			cognitiveComplexity++;
+		} else if (/^(break|continue)_(statement|expression)$/.test(type) && node.namedChildren.some(child => rules.jumpLabels.includes(child.type))) {
+			cognitiveComplexity++;
+		} else if (calleeFields[type]) {
+			// Recursion
+			const callee = node.childForFieldName(calleeFields[type]);
+			if (callee && callee.text.split(/[.:>\\]/).pop() === name) cognitiveComplexity++;
+		}
+		for (const child of node.children) visit(child, childNesting);
+	};
+
+	for (const child of definitionNode.children) visit(child, 0);
+	return { complexity, cognitiveComplexity, nestingDepth };
+}
+
+// Halstead volume N * log2(n): operands are identifiers and literals, operators are keywords and punctuation
+function calculateHalsteadVolume(definitionNode: Parser.SyntaxNode): number {
+	const operators = new Set<string>();
+	const operands = new Set<string>();
+	let total = 0;
+	const visit = (node: Parser.SyntaxNode) => {
+		if (commentNodeTypes.has(node.type)) return;
+		// String literals are single operands, whatever their parts
+		if (node.childCount === 0 || (node.isNamed && /string|char_literal|heredoc/.test(node.type))) {
+			if (!node.text.trim()) return;
+			(node.isNamed ? operands : operators).add(node.isNamed ? node.text : node.type);
+			total++;
+			return;
+		}
+		for (const child of node.children) visit(child);
+	};
+	visit(definitionNode);
+	const vocabulary = operators.size + operands.size;
+	return vocabulary > 1 ? Math.round(total * Math.log2(vocabulary) * 100) / 100 : 0;
+}
+
+// Maintainability index on the 0-100 scale: (171 - 5.2 ln(V) - 0.23 CC - 16.2 ln(LOC)) * 100 / 171
+function calculateMaintainabilityIndex(halsteadVolume: number, complexity: number, loc: number): number {
+	const index = (171 - 5.2 * Math.log(Math.max(halsteadVolume, 1)) - 0.23 * complexity - 16.2 * Math.log(Math.max(loc, 1))) * 100 / 171;
+	return Math.round(Math.min(100, Math.max(0, index)) * 100) / 100;
+}
+
+function calculateCallableMetrics(definitionNode: Parser.SyntaxNode, fileExt: string, name: string, loc: number): CallableMetrics {
+	const metrics = calculateComplexityMetrics(definitionNode, fileExt, name);
+	const halsteadVolume = calculateHalsteadVolume(definitionNode);
+	return {
+		...metrics,
+		halsteadVolume,
+		maintainabilityIndex: calculateMaintainabilityIndex(halsteadVolume, metrics.complexity, loc),
+	};
+}
+
+
+// Node types of parameter lists that extractParametersFromNode understands
+const parameterListTypes = new Set(['formal_parameters', 'parameter_list', 'parameters']);
+
+// Reads parameters from a parameter list node. Most grammars expose 'name' (Java, Go, C#, PHP) or
+// 'pattern' (TypeScript, Rust) and 'type' fields; plain identifiers (JavaScript) are used as-is.
+function extractParametersFromNode(paramsNode: Parser.SyntaxNode): Parameter[] {
+	const parameters: Parameter[] = [];
+	for (const child of paramsNode.namedChildren) {
+		if (child.type === 'comment' || child.type.endsWith('annotation')) continue;
+		const typeText = child.childForFieldName('type')?.text.replace(/^:\s*/, ''); // TS type annotations start with ':'
+		// Go allows several names sharing one type: func f(a, b int)
+		const nameNodes = child.childrenForFieldName('name');
+		if (nameNodes.length > 0) {
+			nameNodes.forEach(nameNode => parameters.push({ name: nameNode.text, type: typeText }));
+			continue;
+		}
+		// SCSS parameters with a default value: ($size: 12px)
+		const nameNode = child.childForFieldName('pattern') || child.childForFieldName('left') ||
+			(child.childForFieldName('default') || child.type === 'typed_parameter' ? child.firstNamedChild : null); // Python `b: int`
+		if (nameNode) {
+			parameters.push({ name: nameNode.text, type: typeText });
+		} else if (child.type === 'spread_parameter') {
+			// Java varargs: String... rest
+			const declarator = child.namedChildren.find(c => c.type === 'variable_declarator');
+			const typeNode = child.namedChildren.find(c => c !== declarator && c.type !== 'modifiers');
+			parameters.push({ name: declarator?.childForFieldName('name')?.text || child.text, type: typeNode ? `${typeNode.text}...` : undefined });
+		} else {
+			// Untyped parameters (JS identifiers, Rust self) and anything unrecognised: keep the raw text
+			parameters.push({ name: child.text, type: typeText });
+		}
+	}
+	return parameters;
+}
+
+// --- Doc Comments ---
+// Leading doc comments (JSDoc/TSDoc, PHPDoc, Javadoc, C# XML docs, Rust `///`, Go comments) and
+// Python docstrings, kept as raw text plus a description and parsed tags.
+
+interface DocTag {
+	tag: string; // e.g. "param", "returns", "exception", "raises"
+	name?: string; // Parameter name
+	type?: string; // Type from `{type}`, PHPDoc types, `cref` or `:param type name:`
+	text?: string;
+}
+
+interface DocComment {
+	description: string; // Text without comment markers and tags (C#: the <summary>)
+	tags?: DocTag[];
+	raw?: string; // The comment or docstring as written; left out with docFirstSentence
+}
+
+const commentNodeTypes = new Set(['comment', 'line_comment', 'block_comment']);
+// Siblings between a doc comment and its definition
+const decoratorNodeTypes = new Set(['decorator', 'attribute_item', 'attribute_list', 'annotation', 'marker_annotation']);
+// Nodes that hold several declarations: a comment before a declaration inside them belongs to that declaration only
+const declarationContainerPattern = /body|block|list$|^program$|^source_file$|^compilation_unit$|^module$|^compound_statement$/;
+const docTagsWithName = ['param', 'arg', 'argument', 'property', 'prop', 'typeParam', 'template'];
+const docTagsWithType = ['return', 'returns', 'throws', 'exception', 'var', 'type'];
+
+function extractDocComment(definitionNode: Parser.SyntaxNode, fileExt: string): DocComment | undefined {
+	if (fileExt === '.py') return extractPythonDocstring(definitionNode);
+	if (fileExt === '.css' || fileExt === '.scss') return undefined;
+
+	// Comments precede the outermost node starting on the same line (export statements, field declarations, ...)
+	let anchor = definitionNode;
+	while (anchor.parent && anchor.parent.startPosition.row === anchor.startPosition.row && !declarationContainerPattern.test(anchor.parent.type)) {
+		anchor = anchor.parent;
+	}
+	let previous = anchor.previousNamedSibling;
+	while (previous && decoratorNodeTypes.has(previous.type)) {
+		anchor = previous;
+		previous = previous.previousNamedSibling;
+	}
+
+	// Consecutive comments directly above, excluding comments trailing code on their line
+	const comments: Parser.SyntaxNode[] = [];
+	let next = anchor;
+	while (previous && commentNodeTypes.has(previous.type) && next.startPosition.row - getLastRow(previous) <= 1) {
+		const beforeComment = previous.previousNamedSibling;
+		if (beforeComment && getLastRow(beforeComment) === previous.startPosition.row) break;
+		comments.unshift(previous);
+		next = previous;
+		previous = previous.previousNamedSibling;
+	}
+	if (comments.length === 0) return undefined;
+
+	const last = comments[comments.length - 1];
+	if (last.text.startsWith('/**') && last.text !== '/**/') {
+		return parseBlockDocComment(last.text, fileExt);
+	}
+	// Line doc comments: `///` (C#, Rust) or any `//` block (Go)
+	const linePrefix = fileExt === '.go' ? '//' : '///';
+	const lineComments: Parser.SyntaxNode[] = [];
+	for (let i = comments.length - 1; i >= 0 && comments[i].text.startsWith(linePrefix) && !comments[i].text.startsWith('////'); i--) {
+		lineComments.unshift(comments[i]);
+	}
+	if (lineComments.length === 0 || !['.cs', '.rs', '.go'].includes(fileExt)) return undefined;
+	const raw = lineComments.map(comment => comment.text.trimEnd()).join('\n');
+	const text = lineComments.map(comment => comment.text.trimEnd().slice(linePrefix.length).replace(/^ /, '')).join('\n').trim();
+	if (fileExt === '.go' && /^(go:|nolint|\+build)/.test(text)) return undefined; // Directives, not docs
+	return fileExt === '.cs' ? { ...parseXmlDocComment(text), raw } : { description: text, tags: [], raw };
+}
+
+// Row of a node's last character (line comments may include the trailing newline)
+function getLastRow(node: Parser.SyntaxNode): number {
+	return node.text.endsWith('\n') ? node.endPosition.row - 1 : node.endPosition.row;
+}
+
+// `/** ... */` comments: JSDoc/TSDoc, PHPDoc, Javadoc
+function parseBlockDocComment(raw: string, fileExt: string): DocComment {
+	const lines = raw.replace(/^\/\*\*/, '').replace(/\*\/$/, '').split('\n').map(line => line.replace(/^\s*\* ?/, '').trimEnd());
+	const descriptionLines: string[] = [];
+	const tagTexts: string[] = [];
+	for (const line of lines) {
+		if (/^\s*@\w/.test(line)) {
+			tagTexts.push(line.trim());
+		} else if (tagTexts.length > 0) {
+			tagTexts[tagTexts.length - 1] += `\n${line}`;
+		} else {
+			descriptionLines.push(line);
+		}
+	}
+	return {
+		description: descriptionLines.join('\n').trim(),
+		tags: tagTexts.map(text => parseDocTag(text, fileExt)),
+		raw,
+	};
+}
+
+function parseDocTag(text: string, fileExt: string): DocTag {
+	const [, tag, content] = text.match(/^@([\w-]+)\s*([\s\S]*)$/) || [, text.slice(1), ''];
+	const docTag: DocTag = { tag: tag! };
+	let rest = content!.trim();
+	// `{type}` may contain nested braces, e.g. {{ id: number }}
+	if (rest.startsWith('{')) {
+		let depth = 0;
+		let end = 0;
+		for (; end < rest.length; end++) {
+			if (rest[end] === '{') depth++;
+			else if (rest[end] === '}' && --depth === 0) break;
+		}
+		docTag.type = rest.slice(1, end).trim();
+		rest = rest.slice(end + 1).trim();
+	}
+	const words = rest.split(/\s+/);
+	if (docTagsWithName.includes(docTag.tag)) {
+		// PHPDoc: `@param Type $name`
+		if (!docTag.type && words.length > 1 && /^(\.\.\.)?\$|^&\$/.test(words[1]) && !words[0].startsWith('$')) {
+			docTag.type = words.shift();
+		}
+		const name = words.shift();
+		if (name) docTag.name = name.replace(/^\[([^\]=]+)(=[^\]]*)?\]$/, '$1'); // [optional=default]
+		rest = words.join(' ');
+	} else if (docTagsWithType.includes(docTag.tag) && !docTag.type && fileExt === '.php' && words[0]) {
+		docTag.type = words.shift();
+		rest = words.join(' ');
+	}
+	const tagText = rest.replace(/^-\s+/, '').trim();
+	if (tagText) docTag.text = tagText;
+	return docTag;
+}
+
+// C# XML documentation: <summary> becomes the description, other elements become tags
+function parseXmlDocComment(text: string): DocComment {
+	const decode = (value: string) => value
+		.replace(/<(?:see|seealso)\s+(?:cref|href|langword)="([^"]*)"\s*\/>/g, '$1')
+		.replace(/<(?:paramref|typeparamref)\s+name="([^"]*)"\s*\/>/g, '$1')
+		.replace(/<\/?(?:c|code|para|b|i|em|strong)\s*>/g, '')
+		.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+		.split('\n').map(line => line.trim()).join('\n').trim();
+	let description = '';
+	const tags: DocTag[] = [];
+	const elementPattern = /<(\w+)((?:\s+\w+\s*=\s*"[^"]*")*)\s*(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+	let found = false;
+	for (const [, element, attributeText, content] of text.matchAll(elementPattern)) {
+		found = true;
+		const attributes = Object.fromEntries(Array.from(attributeText.matchAll(/(\w+)\s*=\s*"([^"]*)"/g), ([, key, value]) => [key, value]));
+		if (element === 'summary') {
+			description = decode(content || '');
+			continue;
+		}
+		const tag: DocTag = { tag: element };
+		if (attributes.name) tag.name = attributes.name;
+		if (attributes.cref) tag.type = attributes.cref;
+		const tagText = decode(content || '');
+		if (tagText) tag.text = tagText;
+		tags.push(tag);
+	}
+	return { description: found ? description : decode(text), tags };
+}
+
+// Python: the first statement of a function or class body, if it is a string
+function extractPythonDocstring(definitionNode: Parser.SyntaxNode): DocComment | undefined {
+	const body = definitionNode.childForFieldName('body');
+	const firstStatement = body?.namedChildren.find(child => !commentNodeTypes.has(child.type));
+	const stringNode = firstStatement?.type === 'expression_statement' ? firstStatement.firstNamedChild : null;
+	if (!stringNode || stringNode.type !== 'string' || firstStatement!.namedChildCount !== 1) return undefined;
+	const raw = stringNode.text;
+	const quote = raw.match(/^[rRuU]*("""|'''|"|')/);
+	if (!quote) return undefined;
+	const content = raw.slice(quote[0].length, raw.length - quote[1].length);
+	return { ...parseSphinxDocstring(cleanDocstring(content)), raw };
+}
+
+// Like Python's inspect.cleandoc: strips the first line and the common indentation of the others
+function cleanDocstring(content: string): string {
+	const lines = content.split('\n');
+	const indents = lines.slice(1).filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+	return [lines[0].trim(), ...lines.slice(1).map(line => line.slice(indent).trimEnd())].join('\n').trim();
+}
+
+// Sphinx/reST fields: `:param name:`, `:param type name:`, `:type name:`, `:returns:`, `:rtype:`, `:raises Error:`
+function parseSphinxDocstring(text: string): DocComment {
+	const descriptionLines: string[] = [];
+	const tags: DocTag[] = [];
+	for (const line of text.split('\n')) {
+		const field = line.match(/^:(\w+)(?:\s+([^:]+?))?\s*:\s*(.*)$/);
+		if (field) {
+			const [, tag, argument, fieldText] = field;
+			const docTag: DocTag = { tag };
+			const words = argument ? argument.trim().split(/\s+/) : [];
+			if (['raises', 'raise', 'except', 'exception'].includes(tag)) {
+				if (words.length > 0) docTag.type = words.join(' ');
+			} else if (words.length > 0) {
+				docTag.name = words.pop();
+				if (words.length > 0) docTag.type = words.join(' ');
+			}
+			if (fieldText.trim()) docTag.text = fieldText.trim();
+			tags.push(docTag);
+		} else if (tags.length > 0 && line.trim()) {
+			const current = tags[tags.length - 1];
+			current.text = current.text ? `${current.text}\n${line.trim()}` : line.trim();
+		} else if (tags.length === 0) {
+			descriptionLines.push(line);
+		}
+	}
+	return { description: descriptionLines.join('\n').trim(), tags };
+}
+
+// Copies of the results with doc comments reduced to the first sentence of their description
+function shortenDocComments(results: { [filePath: string]: Definition[] }): { [filePath: string]: Definition[] } {
+	return Object.fromEntries(Object.entries(results).map(([filePath, definitions]) => [
+		filePath,
+		definitions.map(def => def.doc ? { ...def, doc: { description: getFirstSentence(def.doc.description) } } : def),
+	]));
+}
+
+// The first sentence of a description, or its first paragraph if no sentence ends there
+function getFirstSentence(description: string): string {
+	const paragraph = description.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+	const sentence = paragraph.match(/^.*?[.!?](?=\s|$)/);
+	return sentence ? sentence[0] : paragraph;
+}
+
+// --- Modifiers ---
+// Queries capture modifier keywords for C#, Java, PHP and Rust; JS/TS and Python modifiers are read from the
+// syntax tree. Everything ends up as one list of keywords so modifier filters work the same for every language.
+
+// JS/TS keywords that modify a declaration (accessibility_modifier and override_modifier wrap theirs)
+const jsModifierKeywords = new Set(['public', 'private', 'protected', 'static', 'readonly', 'abstract', 'async', 'declare', 'override', 'accessor', 'get', 'set']);
+// Python decorators that act as modifiers, by their last dotted segment
+const pythonModifierDecorators: { [decorator: string]: string } = {
+	staticmethod: 'static',
+	classmethod: 'classmethod',
+	abstractmethod: 'abstract',
+	property: 'property',
+	override: 'override',
+	final: 'final',
+};
+
+// Splits captured modifier text into keywords, keeping Rust visibilities like `pub(in crate::a)` whole
+function splitModifierText(text: string): string[] {
+	return text.match(/[^\s(]+(\([^)]*\))?/g)?.map(word => word.replace(/\s+/g, ' ')) || [];
+}
+
+function getJsModifiers(definitionNode: Parser.SyntaxNode, name: string): string[] {
+	const modifiers: string[] = [];
+	// `export`, `export default` and `declare` wrap the declaration
+	for (let ancestor = definitionNode.parent; ancestor; ancestor = ancestor.parent) {
+		if (ancestor.type === 'export_statement') {
+			modifiers.unshift(...ancestor.children.filter(child => child.type === 'export' || child.type === 'default').map(child => child.type));
+		} else if (ancestor.type === 'ambient_declaration') {
+			modifiers.unshift('declare');
+		} else {
+			break;
+		}
+	}
+	const nameNode = definitionNode.childForFieldName('name');
+	for (const child of definitionNode.children) {
+		if (nameNode && child.startIndex >= nameNode.startIndex) break;
+		if (child.type === 'accessibility_modifier' || child.type === 'override_modifier') {
+			modifiers.push(child.text);
+		} else if (!child.isNamed && jsModifierKeywords.has(child.type)) {
+			modifiers.push(child.type);
+		}
+	}
+	if (name.startsWith('#')) modifiers.push('private');
+	return modifiers;
+}
+
+function getPythonModifiers(definitionNode: Parser.SyntaxNode, name: string): string[] {
+	const modifiers: string[] = [];
+	if (definitionNode.parent?.type === 'decorated_definition') {
+		for (const decorator of definitionNode.parent.namedChildren.filter(child => child.type === 'decorator')) {
+			const decoratorName = decorator.text.replace(/^@\s*/, '').split('(')[0].split('.').pop() || '';
+			const modifier = pythonModifierDecorators[decoratorName];
+			if (modifier) modifiers.push(modifier);
+		}
+	}
+	if (definitionNode.children.some(child => child.type === 'async')) modifiers.push('async');
+	// `_name` and `__name` are private by convention, `__dunder__` names are not
+	if (name.startsWith('_') && !/^__\w+__$/.test(name)) modifiers.push('private');
+	return modifiers;
+}
+
+function getModifiers(modifierCaptures: Parser.SyntaxNode[], definitionNode: Parser.SyntaxNode, fileExt: string, name: string): string[] {
+	const modifiers = modifierCaptures.flatMap(node => splitModifierText(node.text));
+	if (jsExtensions.includes(fileExt)) modifiers.push(...getJsModifiers(definitionNode, name));
+	if (fileExt === '.py') modifiers.push(...getPythonModifiers(definitionNode, name));
+	return [...new Set(modifiers)];
+}
+
+// --- Annotations ---
+// Decorators (TS, Python), attributes (C# `[A]`, PHP `#[A]`, Rust `#[a]`) and Java annotations, read from the
+// syntax tree: inside the declaration, on wrappers such as export statements, or as siblings right before it.
+
+// Nodes that wrap a declaration together with its decorators
+const annotationWrapperTypes = new Set(['export_statement', 'decorated_definition']);
+
+function getAnnotationArguments(argumentsNode: Parser.SyntaxNode | null | undefined): string | undefined {
+	return argumentsNode?.text.replace(/^\(|\)$/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Reads the annotations of one decorator or attribute node; C# and PHP attribute lists hold several
+function readAnnotations(node: Parser.SyntaxNode): Annotation[] {
+	const annotation = (nameNode: Parser.SyntaxNode | null | undefined, argumentsNode?: Parser.SyntaxNode | null): Annotation[] =>
+		nameNode ? [{ name: nameNode.text.replace(/\s+/g, ''), arguments: getAnnotationArguments(argumentsNode) }] : [];
+	switch (node.type) {
+		case 'attribute_list': // C#, PHP
+			return node.descendantsOfType('attribute').flatMap(attribute => annotation(
+				attribute.childForFieldName('name') || attribute.namedChildren.find(child => child.type === 'name'),
+				attribute.childForFieldName('parameters') || attribute.namedChildren.find(child => child.type === 'attribute_argument_list'),
+			));
+		case 'attribute_item': { // Rust: #[derive(Debug)], #[doc = "..."]
+			const attribute = node.namedChildren.find(child => child.type === 'attribute');
+			return annotation(attribute?.firstNamedChild, attribute?.childForFieldName('arguments') || attribute?.childForFieldName('value'));
+		}
+		case 'decorator': { // TS, Python: @name or @name(args)
+			const expression = node.namedChildren.find(child => !commentNodeTypes.has(child.type));
+			if (expression && (expression.type === 'call_expression' || expression.type === 'call')) {
+				return annotation(expression.childForFieldName('function'), expression.childForFieldName('arguments'));
 			}
+			return annotation(expression);
+		}
+		default: // Java annotation, marker_annotation
+			return annotation(node.childForFieldName('name'), node.childForFieldName('arguments'));
+	}
+}
+
+function getAnnotations(definitionNode: Parser.SyntaxNode): Annotation[] {
+	const nodes: Parser.SyntaxNode[] = [];
+	const declarationChain = [definitionNode];
+	while (declarationChain[0].parent && annotationWrapperTypes.has(declarationChain[0].parent.type)) {
+		declarationChain.unshift(declarationChain[0].parent);
+	}
+	// Siblings before the declaration: TS member decorators, Rust attributes
+	const preceding: Parser.SyntaxNode[] = [];
+	let sibling = declarationChain[0].previousNamedSibling;
+	while (sibling && (decoratorNodeTypes.has(sibling.type) || commentNodeTypes.has(sibling.type))) {
+		if (decoratorNodeTypes.has(sibling.type)) preceding.unshift(sibling);
+		sibling = sibling.previousNamedSibling;
+	}
+	nodes.push(...preceding);
+	for (const node of declarationChain) {
+		for (const child of node.namedChildren) {
+			if (decoratorNodeTypes.has(child.type)) nodes.push(child);
+			if (child.type === 'modifiers') nodes.push(...child.namedChildren.filter(modifier => decoratorNodeTypes.has(modifier.type))); // Java
 		}
-		// Recurse into children
-		for (const child of currentNode.children) {
-			traverse(child);
+	}
+	return nodes.flatMap(readAnnotations);
+}
+
+// Annotation names as written in the source: HttpGet, [Authorize], @pytest.fixture, #[Route]. C# attributes
+// may drop their `Attribute` suffix.
+function normalizeAnnotationName(name: string): string {
+	return name.trim().replace(/^(#\[|\[|@)/, '').replace(/\(.*$/s, '').replace(/\]$/, '').replace(/Attribute$/, '');
+}
+
+// Matches the full name or its last segment, so `fixture` also finds `@pytest.fixture`
+function hasAnnotation(def: Definition, names: string[]): boolean {
+	return (def.annotations || []).some(annotation => {
+		const annotationName = normalizeAnnotationName(annotation.name);
+		return names.map(normalizeAnnotationName).some(name =>
+			annotationName === name || ['.', '::', '\\'].some(separator => annotationName.endsWith(`${separator}${name}`))
+		);
+	});
+}
+
+function formatAnnotationsMarkdown(def: Definition): string {
+	if (!def.annotations) return "";
+	return ` ${def.annotations.map(annotation => `\`@${annotation.name}${annotation.arguments !== undefined ? `(${annotation.arguments})` : ''}\``).join(' ')}`;
+}
+
+// Node types left out of signatures
+const signatureExcludedNodeTypes = new Set([
+	'decorator', 'attribute_list', 'attribute_item', 'annotation', 'marker_annotation', 'comment', 'line_comment', 'block_comment',
+]);
+// Fields holding the return type: TS/Python/Rust/PHP, C#, Go, Java
+const returnTypeFields = ['return_type', 'returns', 'result', 'type'];
+
+// The declaration of a callable up to its body, as written but with decorators/attributes/annotations
+// and comments removed and whitespace collapsed. Keeps type parameters, modifiers, defaults and return types.
+// callableNode is the function value of `const f = () => {}` definitions, whose body ends the signature
+function getSignature(definitionNode: Parser.SyntaxNode, code: string, callableNode = definitionNode): string {
+	// SCSS mixins and functions have an unnamed block instead of a body field
+	const body = callableNode.childForFieldName('body') ?? definitionNode.children.find(child => child.type === 'block');
+	const end = body ? body.startIndex : definitionNode.endIndex;
+	const excludedRanges: [number, number][] = [];
+	for (const child of definitionNode.children) {
+		if (child.startIndex >= end) break;
+		if (signatureExcludedNodeTypes.has(child.type)) {
+			excludedRanges.push([child.startIndex, child.endIndex]);
+		} else if (child.type === 'modifiers') { // Java annotations
+			child.namedChildren
+				.filter(modifier => signatureExcludedNodeTypes.has(modifier.type))
+				.forEach(modifier => excludedRanges.push([modifier.startIndex, modifier.endIndex]));
 		}
 	}
+	let text = '';
+	let position = definitionNode.startIndex;
+	for (const [rangeStart, rangeEnd] of excludedRanges) {
+		text += `${code.slice(position, rangeStart)} `;
+		position = rangeEnd;
+	}
+	text += code.slice(position, end);
+	return text
+		.replace(/\s+/g, ' ')
+		.replace(/([(\[<]) /g, '$1')
+		.replace(/ ([)\]>])/g, '$1')
+		.replace(/,\s*([)\]])/g, '$1') // Trailing commas of multi-line parameter lists
+		.replace(/\s*(\{|=>|:|;)\s*$/, '') // Body start (Python `:`, bodiless `;`)
+		.trim();
+}
 
-	traverse(node);
-	return complexity;
+// Syntax errors of a parsed file (ERROR and MISSING nodes of its tree), reported as SARIF findings
+const MAX_SYNTAX_ERRORS_PER_FILE = 20;
+
+interface SyntaxErrorInfo {
+	region?: { startLine: number; startColumn: number; endLine: number; endColumn: number }; // 1-based; absent if the file could not be read
+	message: string;
+	text: string; // Unexpected text or missing node type, part of the finding's fingerprint
 }
 
+function collectSyntaxErrors(rootNode: Parser.SyntaxNode): SyntaxErrorInfo[] {
+	const errors: SyntaxErrorInfo[] = [];
+	const visit = (node: Parser.SyntaxNode) => {
+		if (errors.length >= MAX_SYNTAX_ERRORS_PER_FILE) return;
+		if (node.type === 'ERROR' || node.isMissing) {
+			const text = node.text.split('\n')[0].trim();
+			errors.push({
+				region: {
+					startLine: node.startPosition.row + 1,
+					startColumn: node.startPosition.column + 1,
+					endLine: node.endPosition.row + 1,
+					endColumn: node.endPosition.column + 1,
+				},
+				message: node.isMissing ? `Syntax error: missing \`${node.type}\`.` : `Syntax error: unexpected \`${text.length > 60 ? `${text.slice(0, 60)}...` : text}\`.`,
+				text: node.isMissing ? node.type : text,
+			});
+		}
+		for (const child of node.children) {
+			if (child.hasError || child.isMissing) visit(child);
+		}
+	};
+	if (rootNode.hasError) visit(rootNode);
+	return errors;
+}
 
 function parseCodeWithTreeSitter(
 	code: string,
-	filePath: string
+	filePath: string,
+	querySet: QuerySet = queries, // Built-in queries, or the project's set from loadQuerySet
+	syntaxErrors?: SyntaxErrorInfo[] // Receives the syntax errors of the file, if given
 ): Definition[] {
 	const definitions: Definition[] = [];
 	const fileExt = path.extname(filePath).toLowerCase();
@@ -353,11 +1465,16 @@ function parseCodeWithTreeSitter(
 		}
 	}
 
-	const langQueries = queries[fileExt];
+	syntaxErrors?.push(...collectSyntaxErrors(tree.rootNode));
+
+	const langQueries = querySet[fileExt];
 	if (!langQueries) {
 		return [{ type: "error", name: "No queries defined for file type", startLine: 0, endLine: 0 }];
 	}
 
+	// Syntax node of each definition, used to resolve parent/child relationships
+	const definitionNodes = new Map<string, Parser.SyntaxNode>();
+
 	// Generate unique IDs
 	let idCounter = 0;
 	const generateId = () => `def-${idCounter++}`;
@@ -367,13 +1484,16 @@ function parseCodeWithTreeSitter(
 		if (!queryStr) continue; // Skip empty queries (like CSS or JS enums)
 
 		try {
-			const query = new Parser.Query(language, queryStr);
+			const query = getCompiledQuery(fileExt, language, queryStr);
 			const matches = query.matches(tree.rootNode);
 
 			for (const match of matches) {
 				const nameNode = match.captures.find((c: Parser.QueryCapture) => c.name === "name")?.node;
-				const modifierNode = match.captures.find((c: Parser.QueryCapture) => c.name === "modifier")?.node;
-				const definitionNode = match.captures.find((c: Parser.QueryCapture) => c.name === defType)?.node; // Use defType capture
+				// Some grammars yield one @modifier capture per keyword (e.g. "public static")
+				const modifierNodes = match.captures
+					.filter((c: Parser.QueryCapture) => c.name === "modifier")
+					.map((c: Parser.QueryCapture) => c.node);
+				const definitionNode = match.captures.find((c: Parser.QueryCapture) => c.name === defType || c.name === "definition")?.node; // Use defType (or generic @definition) capture
 				if (!nameNode || !definitionNode) continue;
 
 				// Capture optional fields
@@ -389,14 +1509,19 @@ function parseCodeWithTreeSitter(
 				// Parent type is determined later by the tree traversal approach
 				// Local scope types don't need special handling since we use node traversal
 
+				// A definition capturing itself as @name (e.g. @media) is named after its text up to the block
+				const isSelfNamed = nameNode.startIndex === definitionNode.startIndex && nameNode.endIndex === definitionNode.endIndex;
+				const nameText = isSelfNamed ? nameNode.text.split('{')[0] : nameNode.text;
+				const modifiers = getModifiers(modifierNodes, definitionNode, fileExt, nameText);
+
 				const definition: Definition = {
 					id: generateId(),
 					type: defType,
-					name: nameNode.text,
+					name: nameText.replace(/\s+/g, ' ').trim(), // Normalize multi-line names such as selector lists
 					startLine: definitionNode.startPosition.row + 1,
 					endLine: definitionNode.endPosition.row + 1,
 					loc: definitionNode.endPosition.row - definitionNode.startPosition.row + 1, // Calculate LoC
-					modifier: modifierNode?.text,
+					modifiers: modifiers.length > 0 ? modifiers : undefined,
 					dataType: dataTypeNode?.text,
 					value: valueNode?.text,
 					returnType: returnTypeNode?.text,
@@ -406,30 +1531,20 @@ function parseCodeWithTreeSitter(
 					complexity: 1,
 				};
 
+				const doc = extractDocComment(definitionNode, fileExt);
+				if (doc) definition.doc = doc;
+				const annotations = getAnnotations(definitionNode);
+				if (annotations.length > 0) definition.annotations = annotations;
+
 				// Extract signature for methods/functions if possible
-				if (['method', 'function'].includes(defType)) {
-					// Calculate complexity for functions/methods
-					definition.complexity = calculateComplexity(definitionNode); // Calculate Complexity
-
-					// Attempt to get the full signature text
-					const startPos = definitionNode.startPosition;
-					const endPos = definitionNode.endPosition;
-					const sourceLines = code.split('\n');
-
-					// Heuristic: Try to capture the signature line(s)
-					// This might need refinement based on language specifics
-					let signature = '';
-					if (startPos.row === endPos.row) {
-						signature = sourceLines[startPos.row].substring(startPos.column, endPos.column);
-					} else {
-						// Multi-line signature (less common for just the signature part)
-						// Try to capture up to the opening brace '{' or equivalent
-						const openingBraceIndex = definitionNode.text.indexOf('{');
-						signature = openingBraceIndex > -1 ? definitionNode.text.substring(0, openingBraceIndex).trim() : definitionNode.text.split('\n')[0].trim();
-					}
-					// Clean up signature (optional)
-					signature = signature.replace(/\s+/g, ' ').trim();
-					// definition.signature = signature; // Add if needed later
+				if (['method', 'function', 'mixin'].includes(defType)) {
+					// `const f = () => {}`: the declaration is the definition, the function value has the body and return type
+					const callableNode = nameNode.parent?.type === 'variable_declarator' && nameNode.parent !== definitionNode
+						? nameNode.parent.childForFieldName('value') ?? definitionNode
+						: definitionNode;
+					Object.assign(definition, calculateCallableMetrics(callableNode, fileExt, definition.name, definition.loc!));
+
+					definition.signature = getSignature(definitionNode, code, callableNode);
 
 					// Extract parameters if paramsNode exists
 					if (paramsNode) {
@@ -451,8 +1566,16 @@ function parseCodeWithTreeSitter(
 								paramMatch = {}; // Reset for the next parameter
 							}
 						}
+						// Next, read parameter list nodes structurally using the grammar's field names
+						if (parameters.length === 0 && parameterListTypes.has(paramsNode.type)) {
+							parameters.push(...extractParametersFromNode(paramsNode));
+						}
+						// Arrow function with a single unparenthesised parameter: x => x
+						if (parameters.length === 0 && paramsNode.type === 'identifier') {
+							parameters.push({ name: paramsNode.text });
+						}
 						// Fallback: If captures don't work well, parse the text directly (less robust)
-						if (parameters.length === 0 && paramsNode.text.length > 2) { // Avoid empty "()"
+						if (parameters.length === 0 && !parameterListTypes.has(paramsNode.type) && paramsNode.type !== 'identifier' && paramsNode.text.length > 2) { // Avoid empty "()"
 							const paramList = paramsNode.text.slice(1, -1).split(','); // Remove () and split
 							parameters.push(...paramList.map((p: string) => {
 								const trimmed = p.trim();
@@ -468,27 +1591,27 @@ function parseCodeWithTreeSitter(
 
 						definition.parameters = parameters;
 						definition.parameterCount = parameters.length; // Calculate Parameter Count
+					}
 
-						// Find calls within this function/method body
-						const callQueryStr = langQueries['call'];
-						if (callQueryStr) {
-							try {
-								const callQuery = new Parser.Query(language, callQueryStr);
-								const callMatches = callQuery.matches(definitionNode); // Search within the definition node
-								const calledNames = new Set<string>(); // Use Set to avoid duplicates
-
-								for (const callMatch of callMatches) {
-									const callNameNode = callMatch.captures.find((c: Parser.QueryCapture) => c.name === "call_name")?.node;
-									if (callNameNode) {
-										calledNames.add(callNameNode.text);
-									}
-								}
-								if (calledNames.size > 0) {
-									definition.calls = Array.from(calledNames);
+					// Find calls within this function/method body (independent of whether parameters were captured)
+					const callQueryStr = langQueries['call'];
+					if (callQueryStr) {
+						try {
+							const callQuery = getCompiledQuery(fileExt, language, callQueryStr);
+							const callMatches = callQuery.matches(definitionNode); // Search within the definition node
+							const calledNames = new Set<string>(); // Use Set to avoid duplicates
+
+							for (const callMatch of callMatches) {
+								const callNameNode = callMatch.captures.find((c: Parser.QueryCapture) => c.name === "call_name")?.node;
+								if (callNameNode) {
+									calledNames.add(callNameNode.text);
 								}
-							} catch (callQueryError: any) {
-								console.warn(`Warning: Failed to execute call query for ${defType} ${definition.name} in ${filePath}:`, callQueryError.message);
 							}
+							if (calledNames.size > 0) {
+								definition.calls = Array.from(calledNames);
+							}
+						} catch (callQueryError: any) {
+							console.warn(`Warning: Failed to execute call query for ${defType} ${definition.name} in ${filePath}:`, callQueryError.message);
 						}
 					}
 
@@ -496,17 +1619,16 @@ function parseCodeWithTreeSitter(
 					if (returnTypeNode) {
 						definition.returnType = returnTypeNode.text;
 					} else {
-						// Fallback: Try to capture from signature text (language-specific)
-						// Example for PHP/TS style: function getName(): string { ... }
-						const returnTypeMatch = signature.match(/:\s*(\w+)\s*\{?$/);
-						if (returnTypeMatch) {
-							definition.returnType = returnTypeMatch[1];
-						}
+						// Fallback: the grammar's return type field, e.g. `Promise<string[]>` from `(): Promise<string[]>`
+						const returnTypeField = returnTypeFields.map(field => callableNode.childForFieldName(field)).find(node => !!node);
+						const returnType = returnTypeField?.text.replace(/^\s*(:|->)\s*/, '').replace(/\s+/g, ' ');
+						if (returnType) definition.returnType = returnType;
 					}
 				}
 
 
 				definitions.push(definition);
+				definitionNodes.set(definition.id!, definitionNode);
 			}
 		} catch (queryError: any) {
 			console.error(`Error executing query for ${defType} in ${filePath}:`, queryError);
@@ -514,39 +1636,61 @@ function parseCodeWithTreeSitter(
 		}
 	}
 
-	// --- Parent-Child Relationship Logic ---
-	// Create a map for quick lookup by ID
-	const definitionMap = new Map(definitions.map(def => [def.id, def]));
+	// `const f = () => {}` matches both the function and the variable query: keep only the function
+	const functionKeys = new Set(definitions.filter(def => def.type === 'function').map(def => {
+		const node = definitionNodes.get(def.id!)!;
+		return `${def.name}:${node.startIndex}:${node.endIndex}`;
+	}));
+	for (let i = definitions.length - 1; i >= 0; i--) {
+		const def = definitions[i];
+		const node = definitionNodes.get(def.id!)!;
+		if (def.type === 'variable' && functionKeys.has(`${def.name}:${node.startIndex}:${node.endIndex}`)) {
+			definitions.splice(i, 1);
+			definitionNodes.delete(def.id!);
+		}
+	}
 
+	// --- Parent-Child Relationship Logic ---
+	// Index plausible parents by the exact byte range of their syntax node. Comparing node ranges rather
+	// than line numbers keeps single-line constructs (e.g. `interface I { void go(); }`) apart.
+	const plausibleParentTypes = [
+		'class', 'namespace', 'interface', 'enum', 'method', 'function', 'struct', 'trait', 'impl', 'module',
+		'selector', 'media', 'supports', 'mixin', 'placeholder', // Stylesheets: nested rules (SCSS) and at-rule blocks
+	];
+	const parentsByRange = new Map<string, Definition[]>();
 	definitions.forEach(def => {
-		const node = tree.rootNode.descendantForPosition({ row: def.startLine - 1, column: 0 }); // Get node at start line
-		if (node) {
-			// No redundant parent-child relationship logic (removed)
-
-
-			// More robust parent finding: traverse up the syntax tree
-			let potentialParentNode = node.parent;
-			let parent: Definition | undefined = undefined;
-			while (potentialParentNode) {
-				parent = definitions.find(p =>
-					p.id !== def.id &&
-					p.startLine === potentialParentNode!.startPosition.row + 1 &&
-					p.endLine === potentialParentNode!.endPosition.row + 1 &&
-					['class', 'namespace', 'interface', 'enum', 'method', 'function'].includes(p.type) // Plausible parent types
-				);
-				if (parent) break; // Found a direct parent definition
-				potentialParentNode = potentialParentNode.parent;
-			}
+		const node = definitionNodes.get(def.id!);
+		if (!node || !plausibleParentTypes.includes(def.type)) return;
+		const rangeKey = `${node.startIndex}:${node.endIndex}`;
+		parentsByRange.set(rangeKey, [...(parentsByRange.get(rangeKey) || []), def]);
+	});
 
+	definitions.forEach(def => {
+		const node = definitionNodes.get(def.id!);
+		if (!node) return;
+
+		// Traverse up the syntax tree, starting at the definition's own node: some queries capture an
+		// enclosing node (e.g. Python class-level variables capture the class_definition)
+		let potentialParentNode: Parser.SyntaxNode | null = node;
+		let parent: Definition | undefined = undefined;
+		while (potentialParentNode) {
+			const candidates = parentsByRange.get(`${potentialParentNode.startIndex}:${potentialParentNode.endIndex}`) || [];
+			parent = candidates.find(p =>
+				p.id !== def.id &&
+				// Skip duplicate matches of the same node (e.g. Python functions match both 'function' and 'method')
+				!(p.name === def.name && potentialParentNode!.startIndex === node.startIndex && potentialParentNode!.endIndex === node.endIndex)
+			);
+			if (parent) break; // Found a direct parent definition
+			potentialParentNode = potentialParentNode.parent;
+		}
 
-			if (parent) {
-				def.parentId = parent.id;
-				if (!parent.children) {
-					parent.children = [];
-				}
-				if (def.id) { // Ensure def.id is defined before pushing
-					parent.children.push(def.id);
-				}
+		if (parent) {
+			def.parentId = parent.id;
+			if (!parent.children) {
+				parent.children = [];
+			}
+			if (def.id) { // Ensure def.id is defined before pushing
+				parent.children.push(def.id);
 			}
 		}
 	});
@@ -567,7 +1711,8 @@ function parseCodeWithTreeSitter(
 // --- XML Formatting ---
 function formatResultsXML(
 	results: { [filePath: string]: Definition[] },
-	detailLevel: 'minimal' | 'standard' | 'detailed'
+	detailLevel: 'minimal' | 'standard' | 'detailed',
+	page?: OutputPage
 ): string {
 	const root = create({ version: "1.0", encoding: "UTF-8" }).ele("CodeScanResults");
 
@@ -578,11 +1723,12 @@ function formatResultsXML(
 			type: def.type,
 			name: def.name,
 		};
+		if (def.change) attrs.change = def.change;
 
 		if (detailLevel !== 'minimal') {
 			attrs.startLine = def.startLine;
 			attrs.endLine = def.endLine;
-			if (def.modifier) attrs.modifier = def.modifier;
+			if (def.modifiers) attrs.modifiers = def.modifiers.join(' ');
 		}
 
 		if (detailLevel === 'detailed') {
@@ -591,6 +1737,7 @@ function formatResultsXML(
 				attrs.value = def.value;
 			}
 			if (def.returnType) attrs.returnType = def.returnType;
+			if (def.signature) attrs.signature = def.signature;
 			// Add metrics
 			// if (def.loc !== undefined) attrs.loc = def.loc; // Removed as requested
 			// if (def.parameterCount !== undefined) attrs.parameterCount = def.parameterCount; // Removed as requested
@@ -600,6 +1747,11 @@ function formatResultsXML(
 
 		const defEle = parentElement.ele("Definition", attrs);
 
+		if (detailLevel !== 'minimal' && def.annotations) {
+			const annotationsEle = defEle.ele("Annotations");
+			def.annotations.forEach(annotation => annotationsEle.ele("Annotation", annotation.arguments !== undefined ? annotation : { name: annotation.name }));
+		}
+
 		// Add parameters for detailed level
 		if (detailLevel === 'detailed' && def.parameters && def.parameters.length > 0) {
 			const paramsEle = defEle.ele("Parameters");
@@ -610,6 +1762,24 @@ function formatResultsXML(
 			});
 		}
 
+		if (detailLevel === 'detailed' && def.doc) {
+			const docEle = defEle.ele("Doc");
+			if (def.doc.description) docEle.ele("Description").txt(def.doc.description);
+			def.doc.tags?.forEach(tag => {
+				const tagAttrs: { [key: string]: string } = { tag: tag.tag };
+				if (tag.name) tagAttrs.name = tag.name;
+				if (tag.type) tagAttrs.type = tag.type;
+				const tagEle = docEle.ele("Tag", tagAttrs);
+				if (tag.text) tagEle.txt(tag.text);
+			});
+			if (def.doc.raw) docEle.ele("Raw").txt(def.doc.raw);
+		}
+
+		if (def.exportedFrom && def.exportedFrom.length > 0) {
+			const exportsEle = defEle.ele("ExportedFrom");
+			def.exportedFrom.forEach(ref => exportsEle.ele("Export", { module: ref.module, name: ref.name }));
+		}
+
 		// Add calls for detailed level
 		if (detailLevel === 'detailed' && def.calls && def.calls.length > 0) {
 			const callsEle = defEle.ele("Calls");
@@ -641,6 +1811,12 @@ function formatResultsXML(
 		});
 	}
 
+	if (page) {
+		const { omittedDirectories, ...pageAttrs } = page;
+		const pageEle = root.ele("Page", Object.fromEntries(Object.entries(pageAttrs).filter(([, value]) => value !== undefined)));
+		omittedDirectories.forEach(entry => pageEle.ele("Omitted", entry));
+	}
+
 	return root.end({ prettyPrint: true });
 }
 
@@ -648,7 +1824,8 @@ function formatResultsXML(
 function formatResultsMarkdown(
 	results: { [filePath: string]: Definition[] },
 	detailLevel: 'minimal' | 'standard' | 'detailed',
-	directoryPath: string // Added directory path for relative file paths
+	directoryPath: string, // Added directory path for relative file paths
+	page?: OutputPage
 ): string {
 	let md = `# Code Scan Results for ${directoryPath}\n\n`; // Use provided directory path
 
@@ -667,14 +1844,15 @@ function formatResultsMarkdown(
 			default:
 				// Standard: Type: Name (Lines: Start-End) [Modifier]
 				const lineInfo = `(Lines: ${def.startLine}-${def.endLine})`;
-				const modifierText = def.modifier ? ` [\`${def.modifier}\`]` : "";
-				result = `${indentation}- **${def.type.toUpperCase()}**: \`${def.name}\` ${lineInfo}${modifierText}`;
+				const modifierText = def.modifiers ? ` [\`${def.modifiers.join(' ')}\`]` : "";
+				result = `${indentation}- **${def.type.toUpperCase()}**: \`${def.name}\` ${lineInfo}${modifierText}${formatAnnotationsMarkdown(def)}`;
 				break;
 			case 'detailed':
 				// Detailed: Type: Name (Lines: Start-End) [Modifier] {Details}
 				const detailedLineInfo = `(Lines: ${def.startLine}-${def.endLine})`;
-				const detailedModifierText = def.modifier ? ` [\`${def.modifier}\`]` : "";
+				const detailedModifierText = def.modifiers ? ` [\`${def.modifiers.join(' ')}\`]` : "";
 				let details = [];
+				if (def.signature) details.push(`Signature: \`${def.signature}\``);
 				if (def.dataType) details.push(`DataType: \`${def.dataType}\``);
 				if (def.value && def.type !== 'variable' && def.type !== 'property') details.push(`Value: \`${def.value.substring(0, 50)}${def.value.length > 50 ? '...' : ''}\``);
 				if (def.parameters && def.parameters.length > 0) {
@@ -692,13 +1870,27 @@ function formatResultsMarkdown(
 				}
 
 				const detailText = details.length > 0 ? ` { ${details.join('; ')} }` : "";
-				result = `${indentation}- **${def.type.toUpperCase()}**: \`${def.name}\` ${detailedLineInfo}${detailedModifierText}${detailText}`;
+				result = `${indentation}- **${def.type.toUpperCase()}**: \`${def.name}\` ${detailedLineInfo}${detailedModifierText}${formatAnnotationsMarkdown(def)}${detailText}`;
 				break;
 		}
 
 
+		if (def.change) result += ` _(${def.change})_`;
+		if (def.exportedFrom && def.exportedFrom.length > 0) {
+			result += ` (exported from ${def.exportedFrom.map(ref => `\`${ref.module}\`${ref.name !== def.name ? ` as \`${ref.name}\`` : ''}`).join(', ')})`;
+		}
 		result += "\n";
 
+		// Doc comment as a quote below the definition
+		if (detailLevel === 'detailed' && def.doc) {
+			const docLines = def.doc.description ? def.doc.description.split('\n') : [];
+			const tagLines = (def.doc.tags || []).map(tag =>
+				`- \`@${tag.tag}${tag.name ? ` ${tag.name}` : ''}\`${tag.type ? ` (\`${tag.type}\`)` : ''}${tag.text ? `: ${tag.text.replace(/\s*\n\s*/g, ' ')}` : ''}`
+			);
+			if (docLines.length > 0 && tagLines.length > 0) docLines.push('');
+			[...docLines, ...tagLines].forEach(line => { result += `${indentation}  >${line ? ` ${line}` : ''}\n`; });
+		}
+
 		// Recursively add children
 		if (def.children && def.children.length > 0) {
 			def.children.forEach((childId) => {
@@ -715,7 +1907,7 @@ function formatResultsMarkdown(
 
 	for (const filePath of filePaths) {
 		// Use relative path from the scanned directory
-		const relativeFilePath = path.relative(directoryPath, filePath).replace(/\\/g, '/'); // Normalize path separators
+		const relativeFilePath = path.relative(directoryPath, path.resolve(directoryPath, filePath)).replace(/\\/g, '/'); // Normalize path separators
 		md += `## File: \`${relativeFilePath}\`\n\n`; // Use relative path
 		const definitions = results[filePath];
 		// Filter for top-level definitions (no parentId) to start the hierarchy
@@ -751,6 +1943,7 @@ function formatResultsMarkdown(
 		md += "\n";
 	}
 
+	if (page) md += formatOutputPageMarkdown(page);
 
 	return md;
 }
@@ -758,7 +1951,8 @@ function formatResultsMarkdown(
 // --- JSON Formatting ---
 function formatResultsJSON(
 	results: { [filePath: string]: Definition[] },
-	detailLevel: 'minimal' | 'standard' | 'detailed'
+	detailLevel: 'minimal' | 'standard' | 'detailed',
+	page?: OutputPage
 ): string {
 	const output: { [filePath: string]: any[] } = {};
 
@@ -768,6 +1962,8 @@ function formatResultsJSON(
 			type: def.type,
 			name: def.name,
 		};
+		if (def.change) baseObj.change = def.change;
+		if (def.exportedFrom) baseObj.exportedFrom = def.exportedFrom;
 
 		if (detailLevel === 'minimal') {
 			return baseObj; // Only type and name for minimal
@@ -777,7 +1973,8 @@ function formatResultsJSON(
 		baseObj.startLine = def.startLine;
 		baseObj.endLine = def.endLine;
 
-		if (def.modifier) baseObj.modifier = def.modifier;
+		if (def.modifiers) baseObj.modifiers = def.modifiers;
+		if (def.annotations) baseObj.annotations = def.annotations;
 
 		if (detailLevel === 'detailed') {
 			// Detailed includes everything
@@ -785,12 +1982,14 @@ function formatResultsJSON(
 			if (def.value && def.type !== 'variable' && def.type !== 'property') baseObj.value = def.value;
 			if (def.parameters && def.parameters.length > 0) baseObj.parameters = def.parameters;
 			if (def.returnType) baseObj.returnType = def.returnType;
+			if (def.signature) baseObj.signature = def.signature;
 			// Add metrics for detailed level
 			// if (def.loc !== undefined) baseObj.loc = def.loc; // Removed as requested
 			// if (def.parameterCount !== undefined) baseObj.parameterCount = def.parameterCount; // Removed as requested
 			// if (def.complexity !== undefined) baseObj.complexity = def.complexity; // Removed as requested
 			// Add calls for detailed level
 			if (def.calls && def.calls.length > 0) baseObj.calls = def.calls;
+			if (def.doc) baseObj.doc = def.doc;
 		}
 
 		// Add children recursively for standard and detailed
@@ -811,599 +2010,4589 @@ function formatResultsJSON(
 		output[filePath] = topLevelDefs.map(def => createDefinitionObject(def, definitions));
 	}
 
-	return JSON.stringify(output, null, 2); // Pretty print JSON
+	// Limited output keeps file paths apart from the page information
+	return JSON.stringify(page ? { results: output, page } : output, null, 2); // Pretty print JSON
 }
 
 
-// --- Core Scanning Logic --- Refactored
-async function performScan(
-	directory: string,
-	filePatterns: string[],
+// --- Output Budget ---
+// Keeps scan output within maxTokens/maxChars: lowers the detail level first, then lists only as many
+// files as fit, summarises the rest by directory and returns a cursor for the next page.
+
+interface OutputBudget {
+	maxTokens?: number;
+	maxChars?: number;
+	cursor?: string; // nextCursor of the previous page
+}
+
+interface OmittedDirectory {
+	directory: string;
+	files: number;
+	definitions: number;
+}
+
+// Describes what a limited or paginated output left out
+interface OutputPage {
+	maxChars?: number;
+	requestedDetailLevel: 'minimal' | 'standard' | 'detailed';
+	detailLevel: 'minimal' | 'standard' | 'detailed';
+	totalFiles: number;
+	totalDefinitions: number;
+	previousFiles: number; // Files listed on previous pages
+	listedFiles: number;
+	listedDefinitions: number;
+	omittedFiles: number; // Files left for the next pages
+	omittedDefinitions: number;
+	omittedDirectories: OmittedDirectory[];
+	overBudget?: boolean; // A single file didn't fit, it is listed anyway so pagination can progress
+	nextCursor?: string;
+}
+
+const CHARS_PER_TOKEN = 4; // Rough estimate for code and markup
+const MAX_OMITTED_DIRECTORIES = 20;
+const detailLevels = ['minimal', 'standard', 'detailed'] as const;
+
+function formatResults(
+	results: { [filePath: string]: Definition[] },
 	outputFormat: 'xml' | 'markdown' | 'json',
-	detailLevel: 'minimal' | 'standard' | 'detailed' = 'standard',
-	filterOptions: FilterOptions = {}
-): Promise<string> {
-	const startTime = Date.now();
-	console.error(`Starting scan in directory: ${directory}`);
-	console.error(`File patterns: ${filePatterns.join(', ')}`);
-	console.error(`Output format: ${outputFormat}, Detail level: ${detailLevel}`);
-	console.error(`Filter options: ${JSON.stringify(filterOptions)}`);
+	detailLevel: 'minimal' | 'standard' | 'detailed',
+	directory: string,
+	page?: OutputPage
+): string {
+	switch (outputFormat) {
+		case "xml":
+			return formatResultsXML(results, detailLevel, page);
+		case "json":
+			return formatResultsJSON(results, detailLevel, page);
+		case "markdown":
+		default:
+			// Pass the original directory path for relative path calculation in Markdown
+			return formatResultsMarkdown(results, detailLevel, directory, page);
+	}
+}
+
+function formatOutputPageMarkdown(page: OutputPage): string {
+	const notes: string[] = [];
+	if (page.maxChars !== undefined) {
+		notes.push(`Output is limited to ${page.maxChars} characters (about ${Math.floor(page.maxChars / CHARS_PER_TOKEN)} tokens).`);
+	}
+	if (page.detailLevel !== page.requestedDetailLevel) {
+		notes.push(`Detail level was lowered from \`${page.requestedDetailLevel}\` to \`${page.detailLevel}\`.`);
+	}
+	if (page.previousFiles > 0) notes.push(`${page.previousFiles} files were listed on previous pages.`);
+	notes.push(`Listed ${page.listedFiles} of ${page.totalFiles} files (${page.listedDefinitions} of ${page.totalDefinitions} definitions).`);
+	if (page.overBudget) notes.push(`The listed file alone exceeds the limit.`);
+	let md = `## Output Limit\n\n${notes.join(' ')}\n`;
+	if (page.omittedFiles > 0) {
+		md += `\nLeft out: ${page.omittedFiles} files with ${page.omittedDefinitions} definitions:\n\n`;
+		page.omittedDirectories.forEach(entry => {
+			md += `- \`${entry.directory}\`: ${entry.files} files, ${entry.definitions} definitions\n`;
+		});
+	}
+	if (page.nextCursor) md += `\nNext page: pass cursor \`${page.nextCursor}\`\n`;
+	return md;
+}
 
+// Definition counts of files per directory, merged into parent directories until there are few enough entries
+function summariseDirectories(results: { [filePath: string]: Definition[] }, files: string[]): OmittedDirectory[] {
+	const directories = files.map(file => path.posix.dirname(file).split('/').filter(segment => segment !== '.'));
+	let depth = Math.max(0, ...directories.map(segments => segments.length));
+	let summary: OmittedDirectory[];
+	do {
+		const entries = new Map<string, OmittedDirectory>();
+		files.forEach((file, i) => {
+			const directory = directories[i].slice(0, depth).join('/') + '/';
+			const entry = entries.get(directory) ?? { directory: directory === '/' ? './' : directory, files: 0, definitions: 0 };
+			entry.files++;
+			entry.definitions += results[file].length;
+			entries.set(directory, entry);
+		});
+		summary = Array.from(entries.values());
+		depth--;
+	} while (summary.length > MAX_OMITTED_DIRECTORIES && depth >= 0);
+	return summary.sort((a, b) => a.directory.localeCompare(b.directory));
+}
 
-	// Resolve the target directory relative to the current working directory
-	const targetDir = path.resolve(process.cwd(), directory);
-	console.error(`Resolved target directory: ${targetDir}`);
+// Cursors name the last listed file and are bound to the scan arguments they were created for
+function encodeOutputCursor(lastFile: string, scanKey: string): string {
+	return Buffer.from(JSON.stringify({ after: lastFile, scan: scanKey })).toString('base64url');
+}
 
+function decodeOutputCursor(cursor: string, scanKey: string): string {
+	let decoded: any;
 	try {
-		// Check if the directory exists using async fs
-		await fs.access(targetDir);
-	} catch (error) {
-		throw new Error(`Directory not found: ${targetDir}`);
+		decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+	} catch {
+		throw new Error(`Invalid cursor: ${cursor}`);
 	}
+	if (typeof decoded?.after !== 'string' || decoded.scan !== scanKey) {
+		throw new Error("Invalid cursor: it doesn't belong to a scan with the same directory, patterns and filters.");
+	}
+	return decoded.after;
+}
 
-	// Find .gitignore
-	const gitignorePath = await findGitignore(targetDir);
-	const ignoreFilter = await getIgnoreFilter(gitignorePath);
-	console.error(`Using .gitignore: ${gitignorePath || 'None found'}`);
-
+function getOutputBudgetChars(budget: OutputBudget): number | undefined {
+	const limits = [
+		budget.maxChars,
+		budget.maxTokens !== undefined ? budget.maxTokens * CHARS_PER_TOKEN : undefined,
+	].filter((limit): limit is number => limit !== undefined);
+	return limits.length > 0 ? Math.min(...limits) : undefined;
+}
 
-	// --- File Discovery ---
-	console.error("Starting file discovery...");
-	let files: Set<string>; // Declare files set here
+function formatResultsWithinBudget(
+	results: { [filePath: string]: Definition[] },
+	outputFormat: 'xml' | 'markdown' | 'json',
+	detailLevel: 'minimal' | 'standard' | 'detailed',
+	directory: string,
+	budget: OutputBudget,
+	scanKey: string
+): string {
+	const maxChars = getOutputBudgetChars(budget);
+	if (maxChars === undefined && !budget.cursor) {
+		return formatResults(results, outputFormat, detailLevel, directory);
+	}
 
-	// Check if includePaths is provided and should be restrictive
-	if (filterOptions.includePaths && filterOptions.includePaths.length > 0) {
-		console.error("`includePaths` provided, operating in restrictive mode.");
-		files = new Set<string>(); // Initialize as empty set
+	const allFiles = Object.keys(results).sort();
+	const after = budget.cursor ? decodeOutputCursor(budget.cursor, scanKey) : undefined;
+	const files = after === undefined ? allFiles : allFiles.filter(file => file > after);
+	const countDefinitions = (list: string[]) => list.reduce((count, file) => count + results[file].length, 0);
+	const render = (listed: number, level: 'minimal' | 'standard' | 'detailed', overBudget?: boolean): string => {
+		const listedFiles = files.slice(0, listed);
+		const omittedFiles = files.slice(listed);
+		const page: OutputPage = {
+			maxChars,
+			requestedDetailLevel: detailLevel,
+			detailLevel: level,
+			totalFiles: allFiles.length,
+			totalDefinitions: countDefinitions(allFiles),
+			previousFiles: allFiles.length - files.length,
+			listedFiles: listedFiles.length,
+			listedDefinitions: countDefinitions(listedFiles),
+			omittedFiles: omittedFiles.length,
+			omittedDefinitions: countDefinitions(omittedFiles),
+			omittedDirectories: summariseDirectories(results, omittedFiles),
+			overBudget,
+			nextCursor: omittedFiles.length > 0 ? encodeOutputCursor(listedFiles[listedFiles.length - 1], scanKey) : undefined,
+		};
+		const pageResults = Object.fromEntries(listedFiles.map(file => [file, results[file]]));
+		const nothingLeftOut = !budget.cursor && omittedFiles.length === 0 && level === detailLevel;
+		return formatResults(pageResults, outputFormat, level, directory, nothingLeftOut ? undefined : page);
+	};
+	if (maxChars === undefined) return render(files.length, detailLevel);
 
-		// Process only the paths specified in includePaths
-		for (const includePath of filterOptions.includePaths) {
-			// Handle potential glob patterns within includePaths if necessary,
-			// or treat them as specific files/directories.
-			// Current logic reuses the file/directory handling from below.
-			const absoluteIncludePath = path.resolve(targetDir, includePath);
-			try {
-				const stats = await fs.stat(absoluteIncludePath);
-				if (stats.isFile()) {
-					files.add(path.normalize(absoluteIncludePath));
-					console.error(`Added specific file from includePaths: ${absoluteIncludePath}`);
-				} else if (stats.isDirectory()) {
-					console.error(`Included path is a directory, scanning recursively: ${absoluteIncludePath}`);
-					// Use fg to find files within the directory, respecting basic ignores
-					const dirFiles = await fg(path.join(absoluteIncludePath, '**/*').replace(/\\/g, '/'), {
-						dot: true,
-						onlyFiles: true,
-						absolute: true,
-						ignore: ['**/node_modules/**', '**/.git/**'], // Consistent ignores
-					});
-					dirFiles.forEach(f => files.add(path.normalize(f)));
-					console.error(`Added ${dirFiles.length} files from included directory: ${absoluteIncludePath}`);
-				}
-			} catch (statError: any) {
-				// Handle cases where includePath might be a glob pattern needing fg
-				if (includePath.includes('*') || includePath.includes('?')) {
-					console.error(`Included path looks like a glob, attempting glob match: ${includePath}`);
-					try {
-						const globMatches = await fg(path.join(targetDir, includePath).replace(/\\/g, '/'), {
-							dot: true, onlyFiles: true, absolute: true, cwd: targetDir,
-							ignore: ['**/node_modules/**', '**/.git/**'],
-						});
-						globMatches.forEach(match => files.add(path.normalize(match)));
-						console.error(`Added ${globMatches.length} files from includePaths glob: ${includePath}`);
-					} catch (globError) {
-						console.error(`Error matching includePaths glob ${includePath}:`, globError);
-					}
-				} else if (statError.code === 'ENOENT') {
-					console.warn(`Warning: Included path not found: ${absoluteIncludePath}`);
-				} else {
-					console.error(`Error processing included path ${absoluteIncludePath}:`, statError);
-				}
-			}
+	// 1. All remaining files, stepping down from the requested detail level
+	for (let i = detailLevels.indexOf(detailLevel); i >= 0; i--) {
+		const output = render(files.length, detailLevels[i]);
+		if (output.length <= maxChars) return output;
+	}
+	// 2. As many files as fit at minimal detail, the rest summarised by directory
+	let low = 1;
+	let high = files.length - 1;
+	let best: string | undefined;
+	while (low <= high) {
+		const middle = Math.floor((low + high) / 2);
+		const output = render(middle, 'minimal');
+		if (output.length <= maxChars) {
+			best = output;
+			low = middle + 1;
+		} else {
+			high = middle - 1;
 		}
-		console.error(`Total files after processing restrictive includePaths: ${files.size}`);
+	}
+	return best ?? render(Math.min(1, files.length), 'minimal', files.length > 0);
+}
 
-	} else {
-		// --- Standard File Discovery using filePatterns (glob) ---
-		console.error("No restrictive `includePaths`, using standard `filePatterns` globbing.");
-		const globMatchedFiles = new Set<string>(); // Store absolute paths from glob matching
 
-		// Combine default and provided patterns if necessary
-		const combinedPatterns = [...new Set(filePatterns)];
-		console.error(`Combined glob patterns for search: ${combinedPatterns.join(', ')}`);
+// --- Parse Cache ---
+// Per-file parse results stored on disk, keyed by content hash plus scanner/query version,
+// so repeated scans only re-parse files that changed.
+const PARSE_CACHE_DIR = ".code-scanner-cache";
+const PARSE_CACHE_FILE = "parse-cache.json";
+// Bump when parseCodeWithTreeSitter's output changes in a way the query text doesn't reflect
+const PARSE_CACHE_FORMAT = 12;
+
+// The cache is only valid for the exact query set (built-in plus project query files) that produced it
+function getParseCacheVersion(querySet: QuerySet): string {
+	return crypto
+		.createHash("sha1")
+		.update(`${PARSE_CACHE_FORMAT}\n${JSON.stringify(querySet)}`)
+		.digest("hex");
+}
 
-		// Execute glob patterns relative to the target directory
-		const globPatterns = combinedPatterns.map(p => path.join(targetDir, p).replace(/\\/g, '/'));
-		console.error(`Absolute glob patterns for fast-glob: ${globPatterns.join(', ')}`);
+interface ParseCacheEntry {
+	hash: string; // Content hash of the file when it was parsed
+	definitions: Definition[];
+	syntaxErrors?: SyntaxErrorInfo[]; // Omitted when the file parses cleanly
+}
 
-		try {
-			const globMatches = await fg(globPatterns, {
-				dot: true, onlyFiles: true, absolute: true, cwd: targetDir,
-				ignore: ['**/node_modules/**', '**/.git/**'],
-			});
-			console.error(`fast-glob matched ${globMatches.length} files initially.`);
-			globMatches.forEach(match => globMatchedFiles.add(path.normalize(match)));
-		} catch (globError) {
-			console.error("Error during fast-glob execution:", globError);
-			throw new Error("File globbing failed.");
+interface ParseCache {
+	version: string;
+	entries: { [relativePath: string]: ParseCacheEntry };
+}
+
+interface ScanOptions {
+	useCache?: boolean; // Read and write the on-disk parse cache (default: true)
+	clearCache?: boolean; // Delete the cache before scanning
+	concurrency?: number; // Number of parse worker threads (1 = parse on the main thread)
+	warmIndex?: WarmIndex; // In-memory index of the scanned root (MCP server mode only)
+	onlyFiles?: Set<string>; // Absolute paths: scan only these of the discovered files (incremental tags file updates)
+}
+
+function hashContent(content: string): string {
+	return crypto.createHash("sha1").update(content).digest("hex");
+}
+
+async function loadParseCache(targetDir: string, version: string): Promise<ParseCache> {
+	const cachePath = path.join(targetDir, PARSE_CACHE_DIR, PARSE_CACHE_FILE);
+	try {
+		const cache: ParseCache = JSON.parse(await fs.readFile(cachePath, "utf-8"));
+		if (cache.version === version && cache.entries) {
+			return cache;
 		}
+		console.error("Parse cache was written by a different scanner version or query set, starting fresh.");
+	} catch (err: any) {
+		if (err.code !== 'ENOENT') {
+			console.warn(`Warning: Could not read parse cache at ${cachePath}: ${err.message}`);
+		}
+	}
+	return { version, entries: {} };
+}
 
-		files = new Set<string>(globMatchedFiles); // Start with glob results
+async function saveParseCache(targetDir: string, cache: ParseCache): Promise<void> {
+	const cacheDir = path.join(targetDir, PARSE_CACHE_DIR);
+	const cachePath = path.join(cacheDir, PARSE_CACHE_FILE);
+	try {
+		await fs.mkdir(cacheDir, { recursive: true });
+		// Write to a temporary file first so an interrupted write never leaves a corrupt cache
+		const tempPath = `${cachePath}.${process.pid}.tmp`;
+		await fs.writeFile(tempPath, JSON.stringify(cache));
+		await fs.rename(tempPath, cachePath);
+	} catch (err: any) {
+		console.warn(`Warning: Could not write parse cache at ${cachePath}: ${err.message}`);
+	}
+}
 
-		// --- Include specific non-glob paths (additive) ---
-		// This part only runs if includePaths was NOT restrictive
-		const nonGlobIncludes = filterOptions.includePaths?.filter(p => !p.includes('*') && !p.includes('?')) || [];
-		if (nonGlobIncludes.length > 0) {
-			console.error("Adding specific non-glob paths from `includePaths`...");
-			for (const includePath of nonGlobIncludes) {
-				const absoluteIncludePath = path.resolve(targetDir, includePath);
+async function clearParseCache(targetDir: string): Promise<void> {
+	await fs.rm(path.join(targetDir, PARSE_CACHE_DIR), { recursive: true, force: true });
+	console.error(`Cleared parse cache in ${targetDir}`);
+}
+
+// Drops entries for files that no longer exist. Entries for files outside the current scan's
+// patterns are kept, so narrower scans don't evict results of broader ones.
+async function pruneParseCache(targetDir: string, cache: ParseCache, scannedPaths: Set<string>): Promise<number> {
+	const stalePaths = await Promise.all(
+		Object.keys(cache.entries)
+			.filter(relativePath => !scannedPaths.has(relativePath))
+			.map(async relativePath => {
 				try {
-					const stats = await fs.stat(absoluteIncludePath);
-					if (stats.isFile()) {
-						files.add(path.normalize(absoluteIncludePath));
-						console.error(`Added specific file from includePaths: ${absoluteIncludePath}`);
-					} else if (stats.isDirectory()) {
-						console.error(`Included path is a directory, scanning recursively: ${absoluteIncludePath}`);
-						const dirFiles = await fg(path.join(absoluteIncludePath, '**/*').replace(/\\/g, '/'), {
-							dot: true, onlyFiles: true, absolute: true,
-							ignore: ['**/node_modules/**', '**/.git/**'],
-						});
-						dirFiles.forEach(f => files.add(path.normalize(f)));
-						console.error(`Added ${dirFiles.length} files from included directory: ${absoluteIncludePath}`);
-					}
-				} catch (statError: any) {
-					if (statError.code === 'ENOENT') {
-						console.warn(`Warning: Included path not found: ${absoluteIncludePath}`);
-					} else {
-						console.error(`Error stating included path ${absoluteIncludePath}:`, statError);
-					}
+					await fs.access(path.join(targetDir, relativePath));
+					return undefined;
+				} catch {
+					return relativePath;
 				}
-			}
+			})
+	);
+	let removed = 0;
+	for (const relativePath of stalePaths) {
+		if (relativePath && cache.entries[relativePath]) {
+			delete cache.entries[relativePath];
+			removed++;
 		}
 	}
-	// --- End of Conditional File Discovery ---
+	return removed;
+}
 
-	// --- Include specific non-glob paths if provided --- // This section title is now misleading, the logic is handled above. Remove/adjust comment.
-	// const files = new Set<string>(globMatchedFiles); // This line is now inside the else block
-	// The logic previously here (lines 883-911) has been integrated into the
-	// conditional blocks above (restrictive 'if' and standard 'else')
-	// to handle includePaths correctly in both scenarios.
+// --- Parallel Parsing ---
+// Files are spread over a pool of worker threads. Each worker loads this same module, so it has its
+// own Parser instance and compiled queries. Results are stored by file index, keeping output order
+// identical to the sequential path.
+const PARSE_WORKER_ROLE = "code-scanner-parse-worker";
+// Starting workers and loading grammars costs more than parsing a handful of files on the main thread
+const MIN_FILES_FOR_WORKERS = 16;
+const defaultConcurrency = Math.max(1, os.availableParallelism() - 1);
+
+interface ParseFileResult {
+	hash: string; // Content hash of the parsed file ('' if it could not be read)
+	definitions: Definition[];
+	syntaxErrors: SyntaxErrorInfo[];
+}
 
+// Reads and parses a single file. Runs on the main thread or inside a parse worker.
+async function parseFile(absoluteFilePath: string, querySet: QuerySet = queries): Promise<ParseFileResult> {
+	try {
+		const content = await fs.readFile(absoluteFilePath, "utf-8");
+		const syntaxErrors: SyntaxErrorInfo[] = [];
+		const definitions = parseCodeWithTreeSitter(content, absoluteFilePath, querySet, syntaxErrors);
+		return { hash: hashContent(content), definitions, syntaxErrors };
+	} catch (error: any) {
+		console.error(`Error reading or parsing file ${absoluteFilePath}:`, error.message);
+		return {
+			hash: "",
+			definitions: [{ type: "error", name: `Failed to read/parse: ${error.message}`, startLine: 0, endLine: 0 }],
+			syntaxErrors: [{ message: `File could not be read: ${error.message}`, text: '' }],
+		};
+	}
+}
 
-	// --- Filtering based on .gitignore and excludePaths ---
-	let filesToFilter = Array.from(files);
-	console.error(`Total files before gitignore/exclude filtering: ${filesToFilter.length}`);
+async function parseFilesInWorkers(files: string[], concurrency: number, querySet: QuerySet): Promise<ParseFileResult[]> {
+	const results: ParseFileResult[] = new Array(files.length);
+	const workerCount = Math.min(concurrency, files.length);
+	let nextIndex = 0;
+	let failed = false;
+
+	await Promise.all(Array.from({ length: workerCount }, () => new Promise<void>((resolve, reject) => {
+		const worker = new Worker(new URL(import.meta.url), { workerData: { role: PARSE_WORKER_ROLE, querySet } });
+		const dispatch = () => {
+			if (failed || nextIndex >= files.length) {
+				worker.terminate().then(() => resolve(), reject);
+				return;
+			}
+			const index = nextIndex++;
+			worker.postMessage({ index, filePath: files[index] });
+		};
+		worker.on('message', (message: { index: number; result: ParseFileResult }) => {
+			results[message.index] = message.result;
+			dispatch();
+		});
+		worker.on('error', (error) => {
+			failed = true; // Stop the other workers from taking new files
+			worker.terminate();
+			reject(error);
+		});
+		dispatch();
+	})));
 
+	return results;
+}
 
-	// 1. Apply .gitignore filter
-    filesToFilter = filesToFilter.filter(absPath => {
-        const relativePath = path.relative(targetDir, absPath).replace(/\\/g, '/'); // Relative path for ignore check
-        return ignoreFilter(relativePath);
-    });
-	console.error(`Files after gitignore filtering: ${filesToFilter.length}`);
+// Parses files using the worker pool when worthwhile, falling back to the main thread
+async function parseFiles(files: string[], concurrency: number, querySet: QuerySet = queries): Promise<ParseFileResult[]> {
+	if (concurrency > 1 && files.length >= MIN_FILES_FOR_WORKERS) {
+		try {
+			console.error(`Parsing ${files.length} files with ${Math.min(concurrency, files.length)} worker threads...`);
+			return await parseFilesInWorkers(files, concurrency, querySet);
+		} catch (error: any) {
+			console.warn(`Warning: Parse worker failed (${error.message}), parsing on the main thread instead.`);
+		}
+	}
+	const results: ParseFileResult[] = [];
+	for (const absoluteFilePath of files) {
+		results.push(await parseFile(absoluteFilePath, querySet));
+	}
+	return results;
+}
 
+// Entry point when this module is loaded as a parse worker
+function runParseWorker(): void {
+	const querySet: QuerySet = workerData.querySet || queries;
+	parentPort!.on('message', async (message: { index: number; filePath: string }) => {
+		const result = await parseFile(message.filePath, querySet);
+		parentPort!.postMessage({ index: message.index, result });
+	});
+}
 
-	// 2. Apply excludePaths filter (using minimatch)
-    const excludePatterns = filterOptions.excludePaths || [];
-    if (excludePatterns.length > 0) {
-        console.error(`Applying excludePaths patterns: ${excludePatterns.join(', ')}`);
-        const filteredFiles = filesToFilter.filter((absPath) => {
-            const relativePath = path.relative(targetDir, absPath).replace(/\\/g, '/');
-            // Check if the relative path matches any exclude pattern
-            const isExcluded = excludePatterns.some(pattern => minimatch(relativePath, pattern, { dot: true }));
-            if (isExcluded) {
-                // console.error(`Excluding file due to pattern '${excludePatterns.find(p => minimatch(relativePath, p))}': ${relativePath}`);
-            }
-            return !isExcluded; // Keep if not excluded
-        });
-		const excludedCount = filesToFilter.length - filteredFiles.length;
-		if (excludedCount > 0) {
-			console.error(`Excluded ${excludedCount} files based on excludePaths patterns.`);
-		}
-        filesToFilter = filteredFiles;
-    }
-	console.error(`Files after excludePaths filtering: ${filesToFilter.length}`);
-
-
-	// --- Parsing and Definition Extraction ---
-	const results: { [filePath: string]: Definition[] } = {};
-	console.error(`Parsing ${filesToFilter.length} files...`);
+// --- Warm Index (MCP server mode) ---
+// The long-lived server keeps parse results per scanned root in memory and watches the root for
+// changes. Changed files are re-parsed in the background, so later scans skip parsing entirely.
+const WARM_INDEX_REFRESH_DELAY_MS = 300; // Debounce for bursts of file system events
+const warmIndexIgnoredSegments = new Set(["node_modules", ".git", PARSE_CACHE_DIR]);
+
+interface WarmIndexEntry {
+	hash: string;
+	definitions: Definition[];
+	syntaxErrors: SyntaxErrorInfo[];
+	size: number; // Approximate memory footprint in bytes
+}
 
+interface WarmIndex {
+	root: string;
+	querySet: QuerySet; // Query set the indexed files were parsed with
+	queryVersion: string;
+	files: Map<string, WarmIndexEntry>; // Keyed by absolute file path
+	discoveries: Map<string, string[]>; // Discovered file lists, keyed by patterns/include/exclude paths
+	pending: Set<string>; // Changed files waiting to be re-parsed
+	filesAddedOrRemoved: boolean; // Since the last refresh, for resource list notifications
+	changeCount: number; // File system events seen so far; derived data (resource lists) is stale when it changes
+	watcher?: FSWatcher;
+	refreshTimer?: NodeJS.Timeout;
+	createdAt: number;
+	lastUsed: number;
+	size: number;
+}
 
-	for (const absoluteFilePath of filesToFilter) {
-		// Use relative path for keys in the results object for cleaner output
-		const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/'); // Use forward slashes
+const warmIndexes = new Map<string, WarmIndex>();
+let warmIndexMemoryLimit = 256 * 1024 * 1024; // Bytes; 0 disables the warm index
+
+// Returns the warm index for a root, creating it and starting its watcher if needed
+function getWarmIndex(directory: string): WarmIndex | undefined {
+	if (warmIndexMemoryLimit <= 0) return undefined;
+	const root = path.resolve(process.cwd(), directory);
+	let index = warmIndexes.get(root);
+	if (!index) {
+		index = {
+			root,
+			querySet: queries,
+			queryVersion: getParseCacheVersion(queries),
+			files: new Map(),
+			discoveries: new Map(),
+			pending: new Set(),
+			filesAddedOrRemoved: false,
+			changeCount: 0,
+			createdAt: Date.now(),
+			lastUsed: Date.now(),
+			size: 0,
+		};
+		const newIndex = index;
 		try {
-			const content = await fs.readFile(absoluteFilePath, "utf-8");
-			const definitions = parseCodeWithTreeSitter(content, absoluteFilePath); // Pass absolute path here
-			if (definitions.length > 0) { // Only add files with definitions or errors
-				results[absoluteFilePath] = definitions; // Store with absolute path initially
-				// console.error(`Parsed ${relativePath}: Found ${definitions.length} potential definitions.`);
-			} else {
-				// console.error(`Parsed ${relativePath}: No definitions found.`);
-			}
+			newIndex.watcher = watch(root, { recursive: true }, (eventType, filename) => {
+				if (filename) onWarmIndexFileEvent(newIndex, eventType, filename.toString());
+			});
+			newIndex.watcher.on('error', (error) => {
+				// Without a working watcher the index can't be trusted anymore
+				console.error(`Warm index watcher for ${root} failed, evicting index: ${error.message}`);
+				evictWarmIndex(root);
+			});
 		} catch (error: any) {
-			console.error(`Error reading or parsing file ${relativePath}:`, error.message);
-			results[absoluteFilePath] = [{ type: "error", name: `Failed to read/parse: ${error.message}`, startLine: 0, endLine: 0 }];
+			console.warn(`Warning: Could not watch ${root} (${error.message}), not keeping a warm index.`);
+			return undefined;
 		}
+		warmIndexes.set(root, index);
+		console.error(`Created warm index for ${root}`);
 	}
-	console.error("Finished parsing files.");
+	index.lastUsed = Date.now();
+	return index;
+}
 
+function onWarmIndexFileEvent(index: WarmIndex, eventType: string, filename: string): void {
+	const segments = filename.split(/[\\/]/);
+	// Changed ignore rules can add or remove files just like renames
+	const isIgnoreFile = ignoreFileNames.includes(segments[segments.length - 1]) || segments.join('/') === '.git/info/exclude';
+	if (isIgnoreFile) {
+		index.discoveries.clear();
+		index.changeCount++;
+		return;
+	}
+	if (segments.some(segment => warmIndexIgnoredSegments.has(segment))) return;
+	index.changeCount++;
 
-	// --- Filtering Definitions ---
-	console.error("Applying definition filters...");
-	const filteredResults: { [filePath: string]: Definition[] } = {};
-	for (const absoluteFilePath in results) {
-		const definitions = results[absoluteFilePath];
-		const filteredDefs = applyFiltersToDefinitions(definitions, filterOptions);
+	// Files were added, removed or renamed: discovered file lists are stale
+	if (eventType === 'rename') {
+		index.discoveries.clear();
+		index.filesAddedOrRemoved = true;
+	}
+	index.pending.add(path.join(index.root, filename));
+	if (index.refreshTimer) clearTimeout(index.refreshTimer);
+	index.refreshTimer = setTimeout(() => {
+		index.refreshTimer = undefined;
+		refreshWarmIndexFiles(index).catch(error =>
+			console.error(`Error refreshing warm index for ${index.root}:`, error)
+		);
+	}, WARM_INDEX_REFRESH_DELAY_MS);
+}
 
-		// Only include the file in the final results if it has non-error definitions after filtering
-		const hasRealDefinitions = filteredDefs.some(def => def.type !== 'error');
-		if (hasRealDefinitions) {
-			const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
-			filteredResults[relativePath] = filteredDefs; // Use relative path for final output keys
-			// console.error(`Filtered ${relativePath}: Kept ${filteredDefs.length} definitions.`);
+function setWarmIndexEntry(index: WarmIndex, absoluteFilePath: string, hash: string, definitions: Definition[], syntaxErrors: SyntaxErrorInfo[]): void {
+	removeWarmIndexEntry(index, absoluteFilePath);
+	// JSON length is a rough but cheap proxy for the retained size (UTF-16 strings, 2 bytes per char)
+	const size = (JSON.stringify(definitions).length + JSON.stringify(syntaxErrors).length) * 2;
+	index.files.set(absoluteFilePath, { hash, definitions, syntaxErrors, size });
+	index.size += size;
+}
+
+function removeWarmIndexEntry(index: WarmIndex, absoluteFilePath: string): void {
+	const existing = index.files.get(absoluteFilePath);
+	if (existing) {
+		index.size -= existing.size;
+		index.files.delete(absoluteFilePath);
+	}
+}
+
+// Re-parses pending files that are already indexed. New files are picked up by the next scan's discovery.
+async function refreshWarmIndexFiles(index: WarmIndex): Promise<number> {
+	const changedFiles = Array.from(index.pending).filter(filePath => index.files.has(filePath));
+	index.pending.clear();
+	const filesAddedOrRemoved = index.filesAddedOrRemoved;
+	index.filesAddedOrRemoved = false;
+	const updatedFiles: string[] = []; // Files whose content changed, for resource notifications
+	let refreshed = 0;
+	for (const absoluteFilePath of changedFiles) {
+		const previousHash = index.files.get(absoluteFilePath)?.hash;
+		try {
+			await fs.access(absoluteFilePath);
+		} catch {
+			removeWarmIndexEntry(index, absoluteFilePath); // Deleted
+			updatedFiles.push(absoluteFilePath);
+			continue;
+		}
+		const { hash, definitions, syntaxErrors } = await parseFile(absoluteFilePath, index.querySet);
+		if (definitions.some(def => def.type === 'error')) {
+			removeWarmIndexEntry(index, absoluteFilePath);
 		} else {
-			// console.error(`Filtered ${relativePath}: No definitions kept.`);
+			setWarmIndexEntry(index, absoluteFilePath, hash, definitions, syntaxErrors);
 		}
+		if (hash !== previousHash) updatedFiles.push(absoluteFilePath);
+		refreshed++;
 	}
-	console.error("Finished applying definition filters.");
+	if (changedFiles.length > 0) {
+		console.error(`Warm index for ${index.root}: re-parsed ${refreshed} changed files.`);
+	}
+	enforceWarmIndexMemoryLimit();
+	await notifyResourceChanges(index.root, updatedFiles, filesAddedOrRemoved);
+	return refreshed;
+}
 
+function evictWarmIndex(root: string): boolean {
+	const index = warmIndexes.get(root);
+	if (!index) return false;
+	index.watcher?.close();
+	if (index.refreshTimer) clearTimeout(index.refreshTimer);
+	warmIndexes.delete(root);
+	resourceLists.delete(root);
+	console.error(`Evicted warm index for ${root}`);
+	return true;
+}
 
-	// --- Formatting Output ---
-	console.error(`Formatting results as ${outputFormat}...`);
-	let outputText: string;
-	switch (outputFormat) {
-		case "xml":
-			outputText = formatResultsXML(filteredResults, detailLevel);
-			break;
-		case "json":
-			outputText = formatResultsJSON(filteredResults, detailLevel);
-			break;
-		case "markdown":
-		default:
-			// Pass the original directory path for relative path calculation in Markdown
-			outputText = formatResultsMarkdown(filteredResults, detailLevel, directory);
-			break;
+// Evicts least recently used roots until the total size is within the memory limit
+function enforceWarmIndexMemoryLimit(): void {
+	let totalSize = Array.from(warmIndexes.values()).reduce((sum, index) => sum + index.size, 0);
+	const byLastUse = Array.from(warmIndexes.values()).sort((a, b) => a.lastUsed - b.lastUsed);
+	for (const index of byLastUse) {
+		if (totalSize <= warmIndexMemoryLimit) break;
+		console.error(`Warm index memory limit of ${warmIndexMemoryLimit} bytes exceeded.`);
+		evictWarmIndex(index.root);
+		totalSize -= index.size;
 	}
-	console.error("Finished formatting results.");
-	const endTime = Date.now();
-	console.error(`Scan completed in ${endTime - startTime}ms.`);
-
+}
 
-	return outputText;
+function describeWarmIndexes(): object[] {
+	return Array.from(warmIndexes.values()).map(index => ({
+		root: index.root,
+		files: index.files.size,
+		definitions: Array.from(index.files.values()).reduce((sum, entry) => sum + entry.definitions.length, 0),
+		approximateBytes: index.size,
+		pendingChanges: index.pending.size,
+		watching: !!index.watcher,
+		createdAt: new Date(index.createdAt).toISOString(),
+		lastUsed: new Date(index.lastUsed).toISOString(),
+	}));
 }
 
+// --- Git Changes ---
+// Limits scans to files changed since a git ref (committed, staged, unstaged and untracked changes)
+// and marks the definitions overlapping changed lines.
+type ChangeKind = 'added' | 'modified' | 'touched';
 
-// --- Advanced Filtering Logic ---
-// This function applies filters AND handles parent/child relationships correctly.
-function applyFiltersToDefinitions(definitions: Definition[], filterOptions: FilterOptions): Definition[] {
-	if (!definitions || definitions.length === 0) return [];
+interface FileChanges {
+	isNew: boolean; // Untracked, or didn't exist at the ref
+	insertedLines: Set<number>; // Lines from hunks that only add lines
+	changedLines: Set<number>; // Lines from hunks that replace lines
+	deletionPoints: number[]; // Lines after which lines were removed without replacement
+}
 
-	// Make a deep copy to avoid modifying the original array during filtering
-	const definitionsCopy: Definition[] = JSON.parse(JSON.stringify(definitions));
+async function runGit(cwd: string, args: string[]): Promise<string> {
+	try {
+		const { stdout } = await execFileAsync("git", ["-c", "core.quotePath=false", ...args], { cwd, maxBuffer: 256 * 1024 * 1024 });
+		return stdout;
+	} catch (error: any) {
+		throw new Error(`git ${args[0]} failed: ${(error.stderr || error.message).trim()}`);
+	}
+}
 
-	// Separate metadata/error entries if they exist (assuming type 'error' or 'metadata')
-	const metaEntries = definitionsCopy.filter(def => def.type === 'error' || def.type === 'metadata');
-	const nonMetaEntries = definitionsCopy.filter(def => def.type !== 'error' && def.type !== 'metadata');
+// Unquotes a path git printed in C-style quotes (only used for unusual characters with core.quotePath=false)
+function parseGitPath(rawPath: string): string {
+	if (!rawPath.startsWith('"')) return rawPath;
+	try {
+		return JSON.parse(rawPath);
+	} catch {
+		return rawPath.slice(1, -1);
+	}
+}
 
-	// 1. Apply basic filters (type, modifier, name patterns) to non-meta entries
-	const basicFilteredEntries = nonMetaEntries.filter(def => {
-		// Type filtering
-		if (filterOptions.includeTypes && filterOptions.includeTypes.length > 0 && !filterOptions.includeTypes.includes(def.type)) return false;
-		if (filterOptions.excludeTypes && filterOptions.excludeTypes.length > 0 && filterOptions.excludeTypes.includes(def.type)) return false;
+// Returns the changes per absolute file path in targetDir between sinceRef and the working tree
+async function getGitChanges(targetDir: string, sinceRef: string): Promise<Map<string, FileChanges>> {
+	try {
+		await runGit(targetDir, ["rev-parse", "--is-inside-work-tree"]);
+	} catch {
+		throw new Error(`Cannot scan changes since '${sinceRef}': ${targetDir} is not inside a git repository.`);
+	}
+	try {
+		await runGit(targetDir, ["rev-parse", "--verify", "--quiet", `${sinceRef}^{commit}`]);
+	} catch {
+		throw new Error(`Unknown git ref: ${sinceRef}`);
+	}
 
-		// Modifier filtering
-		// Handle cases where modifier might be multi-part (e.g., "public static")
-		const defModifiers = def.modifier?.split(' ') || [];
-		if (filterOptions.includeModifiers && filterOptions.includeModifiers.length > 0) {
-			if (!def.modifier || !filterOptions.includeModifiers.some(incMod => defModifiers.includes(incMod))) return false;
-		}
-		if (filterOptions.excludeModifiers && filterOptions.excludeModifiers.length > 0) {
-			if (def.modifier && filterOptions.excludeModifiers.some(exMod => defModifiers.includes(exMod))) return false;
+	// --relative limits the diff to targetDir and prints paths relative to it
+	const diff = await runGit(targetDir, [
+		"diff", "--unified=0", "--no-color", "--no-ext-diff", "--no-textconv", "--no-renames",
+		"--relative", "--src-prefix=a/", "--dst-prefix=b/", sinceRef, "--",
+	]);
+	const changes = new Map<string, FileChanges>();
+	let current: FileChanges | undefined;
+	let isNewFile = false;
+	for (const line of diff.split('\n')) {
+		if (line.startsWith('diff --git ')) {
+			current = undefined;
+			isNewFile = false;
+		} else if (line.startsWith('new file mode')) {
+			isNewFile = true;
+		} else if (line.startsWith('+++ ')) {
+			const target = line.slice(4);
+			if (target === '/dev/null') continue; // Deleted file
+			current = { isNew: isNewFile, insertedLines: new Set(), changedLines: new Set(), deletionPoints: [] };
+			changes.set(path.join(targetDir, parseGitPath(target).replace(/^b\//, '')), current);
+		} else if (current && line.startsWith('@@')) {
+			const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+			if (!hunk) continue;
+			const oldCount = hunk[1] === undefined ? 1 : Number(hunk[1]);
+			const newStart = Number(hunk[2]);
+			const newCount = hunk[3] === undefined ? 1 : Number(hunk[3]);
+			if (newCount === 0) {
+				current.deletionPoints.push(newStart); // Lines were removed after newStart
+				continue;
+			}
+			const lines = oldCount === 0 ? current.insertedLines : current.changedLines;
+			for (let lineNumber = newStart; lineNumber < newStart + newCount; lineNumber++) lines.add(lineNumber);
 		}
+	}
 
+	const untracked = await runGit(targetDir, ["ls-files", "--others", "--exclude-standard", "-z"]);
+	for (const filePath of untracked.split('\0').filter(Boolean)) {
+		changes.set(path.join(targetDir, filePath), { isNew: true, insertedLines: new Set(), changedLines: new Set(), deletionPoints: [] });
+	}
+	return changes;
+}
 
-		// Name pattern filtering (apply to the core name without modifiers/types)
-		if (filterOptions.namePattern) {
-			try {
-				const regex = new RegExp(filterOptions.namePattern);
-				// Extract just the name part if modifiers/types are prepended (basic heuristic)
-				const nameWithoutModifier = def.name.split(' ').pop() || def.name; // Get last part after spaces
-				const fullName = def.name; // Keep full name for context if needed
-
-				// Test against both the extracted name and the full name for flexibility
-				if (!regex.test(nameWithoutModifier) && !regex.test(fullName)) return false;
-			} catch (e) {
-				console.warn(`Invalid regex for namePattern: ${filterOptions.namePattern}`);
-				return false; // Exclude if regex is invalid
-			}
-		}
-		if (filterOptions.excludeNamePattern) {
-			try {
-				const regex = new RegExp(filterOptions.excludeNamePattern);
-				const nameWithoutModifier = def.name.split(' ').pop() || def.name;
-				const fullName = def.name;
-				if (regex.test(nameWithoutModifier) || regex.test(fullName)) return false;
-			} catch (e) {
-				console.warn(`Invalid regex for excludeNamePattern: ${filterOptions.excludeNamePattern}`);
-				// Don't exclude if regex is invalid, maybe log it
-			}
+// Qualified names of the definitions a file had at a git ref, or undefined if it can't be read there
+async function getDefinitionNamesAtRef(targetDir: string, ref: string, absoluteFilePath: string, querySet: QuerySet): Promise<Set<string> | undefined> {
+	const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
+	let code: string;
+	try {
+		code = await runGit(targetDir, ["show", `${ref}:./${relativePath}`]);
+	} catch {
+		return undefined;
+	}
+	const definitions = parseCodeWithTreeSitter(code, absoluteFilePath, querySet);
+	return new Set(definitions.filter(def => def.type !== 'error').map(def => getQualifiedName(def, definitions)));
+}
+
+// Marks definitions overlapping changes: 'added' if it didn't exist at the ref (by qualified name; without
+// the ref's definitions, if all its lines are new), 'modified' if its own lines changed, 'touched' if only
+// lines of nested definitions changed. Returns copies, cached definitions are shared.
+function markChangedDefinitions(definitions: Definition[], changes: FileChanges, namesAtRef?: Set<string>): Definition[] {
+	const byId = new Map(definitions.map(def => [def.id, def]));
+	const isChangedLine = (line: number) => changes.insertedLines.has(line) || changes.changedLines.has(line);
+	return definitions.map(def => {
+		if (def.type === 'error') return def;
+		let change: ChangeKind | undefined;
+		const lines: number[] = [];
+		for (let line = def.startLine; line <= def.endLine; line++) lines.push(line);
+		const deletions = changes.deletionPoints.filter(line => line >= def.startLine && line < def.endLine);
+
+		// Git often merges a new definition into the hunk of a changed neighbour, so hunk types alone can't tell
+		const isAdded = namesAtRef
+			? lines.some(isChangedLine) && !namesAtRef.has(getQualifiedName(def, definitions))
+			: lines.every(line => changes.insertedLines.has(line));
+		if (changes.isNew || isAdded) {
+			change = 'added';
+		} else if (lines.some(isChangedLine) || deletions.length > 0) {
+			const childRanges = (def.children || [])
+				.map(childId => byId.get(childId))
+				.filter((child): child is Definition => !!child);
+			const isOwnLine = (line: number) => !childRanges.some(child => line >= child.startLine && line <= child.endLine);
+			const ownDeletion = (line: number) => !childRanges.some(child => line >= child.startLine && line < child.endLine);
+			change = lines.some(line => isChangedLine(line) && isOwnLine(line)) || deletions.some(ownDeletion)
+				? 'modified'
+				: 'touched';
 		}
+		return change ? { ...def, change } : def;
+	});
+}
 
-		// Metric filtering (apply only if metric exists on definition)
-		if (filterOptions.minComplexity !== undefined && (def.complexity === undefined || def.complexity < filterOptions.minComplexity)) return false;
-		if (filterOptions.maxComplexity !== undefined && (def.complexity === undefined || def.complexity > filterOptions.maxComplexity)) return false;
-		if (filterOptions.minParameters !== undefined && (def.parameterCount === undefined || def.parameterCount < filterOptions.minParameters)) return false;
-		if (filterOptions.maxParameters !== undefined && (def.parameterCount === undefined || def.parameterCount > filterOptions.maxParameters)) return false;
+// --- Public API ---
+// exportedOnly mode: keeps only definitions other modules can use, and records the module paths
+// consumers import them from. JS/TS exports (including barrel re-exports) and Python's __all__
+// are read from the syntax tree, other languages use visibility modifiers and naming conventions.
 
+interface ExportReference {
+	module: string; // Module path relative to the scanned directory, e.g. "src/shapes" for src/shapes/index.ts
+	name: string; // Name the symbol is exported as ("default" for default exports)
+}
 
-		return true;
-	});
+interface ReExport {
+	source: string; // Module specifier, e.g. "./shapes"
+	names?: { name: string; alias: string }[]; // Undefined for `export * from`
+}
 
-	// 2. Build the initial set of IDs to include (basic filtered entries)
-	const entriesToInclude = new Set(basicFilteredEntries.map(def => def.id));
+interface ModuleExports {
+	localExports: Map<string, string[]>; // Local name -> exported names
+	reExports: ReExport[];
+	pythonAll?: string[]; // Python __all__, if the module defines it
+}
 
-	// 3. Add parents of included entries recursively
-	// Use a Set to avoid infinite loops in case of cyclic dependencies (shouldn't happen)
-	const processedForParents = new Set<string>();
-	let itemsToAdd = [...basicFilteredEntries]; // Start with the initially filtered items
+const jsExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+const containerTypes = ['namespace', 'package', 'module', 'impl'];
 
-	while (itemsToAdd.length > 0) {
-		const current = itemsToAdd.pop();
-		if (!current || !current.id || processedForParents.has(current.id)) {
-			continue; // Skip if no current item, no ID, or already processed
-		}
-		processedForParents.add(current.id);
+function getStringLiteral(node: Parser.SyntaxNode | null): string | undefined {
+	if (!node || node.type !== 'string') return undefined;
+	return node.text.slice(1, -1);
+}
 
-		if (current.parentId && !entriesToInclude.has(current.parentId)) {
-			const parent = definitionsCopy.find(p => p.id === current.parentId); // Find in the original copy
-			if (parent && parent.id) {
-				// Check if the parent itself should be excluded by name pattern
-				if (filterOptions.excludeNamePattern) {
-					try {
-						const regex = new RegExp(filterOptions.excludeNamePattern);
-						const nameWithoutModifier = parent.modifier ? parent.name.replace(new RegExp(`^${parent.modifier}\\s+`), '') : parent.name;
-						const fullName = parent.name; // Use full name including modifier for matching
-						if (regex.test(nameWithoutModifier) || regex.test(fullName)) {
-							continue; // Skip adding this excluded parent and processing its parents
+function addLocalExport(moduleExports: ModuleExports, localName: string, exportedName: string): void {
+	const names = moduleExports.localExports.get(localName) || [];
+	if (!names.includes(exportedName)) names.push(exportedName);
+	moduleExports.localExports.set(localName, names);
+}
+
+// Reads ESM export statements and CommonJS module.exports/exports assignments at the top level
+function collectJsExports(root: Parser.SyntaxNode, moduleExports: ModuleExports): void {
+	for (const statement of root.namedChildren) {
+		if (statement.type === 'export_statement') {
+			const isDefault = statement.children.some(child => child.type === 'default');
+			const source = getStringLiteral(statement.childForFieldName('source'));
+			const declaration = statement.childForFieldName('declaration');
+			const exportClause = statement.namedChildren.find(child => child.type === 'export_clause');
+			const specifiers = (exportClause?.namedChildren || [])
+				.filter(child => child.type === 'export_specifier')
+				.map(specifier => {
+					const name = specifier.childForFieldName('name')?.text || '';
+					return { name, alias: specifier.childForFieldName('alias')?.text || name };
+				});
+
+			if (source !== undefined) {
+				// `export * as ns from` exposes a namespace object rather than definitions
+				if (statement.namedChildren.some(child => child.type === 'namespace_export')) continue;
+				moduleExports.reExports.push({ source, names: exportClause ? specifiers : undefined });
+			} else if (exportClause) {
+				specifiers.forEach(({ name, alias }) => addLocalExport(moduleExports, name, alias));
+			} else if (declaration) {
+				const declarators = declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration'
+					? declaration.namedChildren.filter(child => child.type === 'variable_declarator')
+					: [declaration];
+				declarators.forEach(declarator => {
+					const name = declarator.childForFieldName('name')?.text;
+					if (name) addLocalExport(moduleExports, name, isDefault ? 'default' : name);
+				});
+			} else if (isDefault && statement.childForFieldName('value')?.type === 'identifier') {
+				addLocalExport(moduleExports, statement.childForFieldName('value')!.text, 'default');
+			}
+		} else if (statement.type === 'expression_statement' && statement.firstNamedChild?.type === 'assignment_expression') {
+			const assignment = statement.firstNamedChild;
+			const target = assignment.childForFieldName('left')?.text;
+			const value = assignment.childForFieldName('right');
+			if (!target || !value) continue;
+			if (target === 'module.exports') {
+				if (value.type === 'identifier') {
+					addLocalExport(moduleExports, value.text, 'default');
+				} else if (value.type === 'object') {
+					for (const property of value.namedChildren) {
+						if (property.type === 'shorthand_property_identifier') {
+							addLocalExport(moduleExports, property.text, property.text);
+						} else if (property.type === 'pair' && property.childForFieldName('value')?.type === 'identifier') {
+							addLocalExport(moduleExports, property.childForFieldName('value')!.text, property.childForFieldName('key')!.text);
 						}
-					} catch (e) {
-						console.error(`Invalid regex for excludeNamePattern: ${filterOptions.excludeNamePattern}`, e);
-						// Decide how to handle invalid regex: skip exclusion or throw error? Skipping for now.
 					}
 				}
-				// If not excluded, add it
-				entriesToInclude.add(parent.id);
-				itemsToAdd.push(parent); // Add parent to the queue to check its parents
+			} else {
+				const memberExport = target.match(/^(?:module\.)?exports\.([\w$]+)$/);
+				if (memberExport) {
+					addLocalExport(moduleExports, value.type === 'identifier' ? value.text : memberExport[1], memberExport[1]);
+				}
 			}
 		}
 	}
+}
 
+// Reads `__all__ = [...]` (and `__all__ += [...]`) at the module level
+function collectPythonAll(root: Parser.SyntaxNode, moduleExports: ModuleExports): void {
+	for (const statement of root.namedChildren) {
+		const assignment = statement.type === 'expression_statement' ? statement.firstNamedChild : null;
+		if (!assignment || (assignment.type !== 'assignment' && assignment.type !== 'augmented_assignment')) continue;
+		if (assignment.childForFieldName('left')?.text !== '__all__') continue;
+		const value = assignment.childForFieldName('right');
+		if (!value || (value.type !== 'list' && value.type !== 'tuple')) continue;
+		const names = value.namedChildren
+			.filter(child => child.type === 'string')
+			.map(child => child.text.replace(/^[rbuf]*(['"]{1,3})([\s\S]*)\1$/i, '$2'));
+		moduleExports.pythonAll = assignment.type === 'assignment' ? names : [...(moduleExports.pythonAll || []), ...names];
+	}
+}
 
-	// 4. Add children of included entries recursively (optional, depends on desired behavior)
-	// If you want to include all descendants of a matched item:
-	// Commented-out legacy code removed
-
-	// 5. Filter the original deep copy based on the final set of IDs to include
-	let result = definitionsCopy.filter(def => def.id && entriesToInclude.has(def.id));
-
-	// 6. Rebuild children arrays for the final filtered list
-	const finalIds = new Set(result.map(def => def.id));
-	result.forEach(def => {
-		if (def.children) {
-			def.children = def.children.filter(childId => finalIds.has(childId));
-		}
-		// Ensure parentId is valid within the filtered set, otherwise remove it
-		if (def.parentId && !finalIds.has(def.parentId)) {
-			def.parentId = undefined;
+async function readModuleExports(absoluteFilePath: string): Promise<ModuleExports | undefined> {
+	const fileExt = path.extname(absoluteFilePath).toLowerCase();
+	if (!jsExtensions.includes(fileExt) && fileExt !== '.py') return undefined;
+	const moduleExports: ModuleExports = { localExports: new Map(), reExports: [] };
+	try {
+		parser.setLanguage(languageMap[fileExt]);
+		const tree = parser.parse(await fs.readFile(absoluteFilePath, "utf-8"));
+		if (fileExt === '.py') {
+			collectPythonAll(tree.rootNode, moduleExports);
+		} else {
+			collectJsExports(tree.rootNode, moduleExports);
 		}
-	});
-
-	// 7. Add back the metadata/error entries
-	result = [...metaEntries, ...result];
-
+	} catch (error: any) {
+		console.error(`Could not read exports of ${absoluteFilePath}: ${error.message}`);
+	}
+	return moduleExports;
+}
 
-	// 8. Final sort (optional, e.g., by start line)
-	result.sort((a, b) => a.startLine - b.startLine);
+// The path consumers import a file by, relative to the scanned directory
+function getModulePath(targetDir: string, absoluteFilePath: string): string {
+	const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
+	const fileExt = path.extname(relativePath);
+	const withoutExt = relativePath.slice(0, -fileExt.length);
+	if (fileExt === '.py') return withoutExt.replace(/\/__init__$|^__init__$/, '').replace(/\//g, '.') || '.';
+	if (fileExt === '.go') return path.posix.dirname(relativePath);
+	if (jsExtensions.includes(fileExt)) return withoutExt.replace(/\/index$|^index$/, '') || '.';
+	return withoutExt;
+}
 
+// Resolves a relative JS/TS module specifier to one of the scanned files
+function resolveModuleSpecifier(fromFile: string, specifier: string, knownFiles: Set<string>): string | undefined {
+	if (!specifier.startsWith('.')) return undefined; // Packages aren't part of the scanned sources
+	return resolveJsModulePath(path.resolve(path.dirname(fromFile), specifier), knownFiles);
+}
 
-	return result;
+// Tries the path as a file, with JS/TS extensions, and as a directory with an index file
+function resolveJsModulePath(basePath: string, knownFiles: Set<string>): string | undefined {
+	// TypeScript ESM imports name the emitted .js file
+	const stripped = basePath.replace(/\.(js|jsx|mjs|cjs)$/, '');
+	const candidates = [basePath, ...jsExtensions.map(ext => stripped + ext), ...jsExtensions.map(ext => path.join(basePath, `index${ext}`))];
+	return candidates.find(candidate => knownFiles.has(candidate));
 }
 
+function isPublicName(def: Definition, fileExt: string): boolean {
+	if (def.name.startsWith('#')) return false;
+	if (fileExt === '.py') return !def.name.startsWith('_') || /^__\w+__$/.test(def.name);
+	if (fileExt === '.go') return /^\p{Lu}/u.test(def.name);
+	if (fileExt === '.scss') return !/^[$%@]?[-_]/.test(def.name); // Sass module members starting with - or _ are private
+	return true;
+}
 
-// --- Parent-Child Relationship Update ---
-// This function ensures parentId and children arrays are consistent after potential modifications
-function updateParentChildRelationships(definitions: Definition[]): Definition[] {
-	if (!definitions) return [];
-	const idToIndexMap = new Map(definitions.map((def, index) => [def.id, index]));
+// Visibility rules for definitions not covered by JS/TS export statements or Python's __all__
+function isPublicDefinition(def: Definition, parent: Definition | undefined, fileExt: string): boolean {
+	if (!isPublicName(def, fileExt)) return false;
+	const modifiers = def.modifiers || [];
+	if (modifiers.includes('private') || modifiers.includes('protected')) return false;
+	switch (fileExt) {
+		case '.cs':
+		case '.java':
+			// Interface members and enum constants are implicitly public
+			return modifiers.includes('public') || def.type === 'enumMember' || parent?.type === 'interface';
+		case '.rs':
+			return modifiers.includes('pub') || def.type === 'enumMember' || parent?.type === 'trait' || !!(parent?.type === 'impl' && parent.dataType);
+		default:
+			return true;
+	}
+}
 
-	definitions.forEach((def, index) => {
-		// Reset children array for recalculation
-		definitions[index].children = [];
-	});
+// Filters definitions (keyed by absolute path) down to the public API and adds exportedFrom references
+async function applyExportedOnly(
+	targetDir: string,
+	discoveredFiles: string[],
+	results: { [absoluteFilePath: string]: Definition[] }
+): Promise<{ [absoluteFilePath: string]: Definition[] }> {
+	// Export tables of all discovered modules; barrels often have no definitions of their own
+	const knownFiles = new Set(discoveredFiles);
+	const moduleExports = new Map<string, ModuleExports>();
+	for (const absoluteFilePath of discoveredFiles) {
+		const exports = await readModuleExports(absoluteFilePath);
+		if (exports) moduleExports.set(absoluteFilePath, exports);
+	}
 
-	definitions.forEach((def, index) => {
-		if (def.parentId) {
-			const parentIndex = idToIndexMap.get(def.parentId);
-			if (parentIndex !== undefined) {
-				// Ensure parent's children array exists
-				if (!definitions[parentIndex].children) {
-					definitions[parentIndex].children = [];
-				}
-				// Add current def ID to parent's children if not already present
-				if (def.id && !definitions[parentIndex].children!.includes(def.id)) {
-					definitions[parentIndex].children!.push(def.id);
-				}
+	// Exported name -> originating file and local name, following re-exports (cycles end in an empty table)
+	const exportTables = new Map<string, Map<string, { file: string; localName: string }>>();
+	const getExportTable = (file: string): Map<string, { file: string; localName: string }> => {
+		let table = exportTables.get(file);
+		if (table) return table;
+		table = new Map();
+		exportTables.set(file, table);
+		const exports = moduleExports.get(file);
+		if (!exports) return table;
+		exports.localExports.forEach((exportedNames, localName) =>
+			exportedNames.forEach(exportedName => table!.set(exportedName, { file, localName }))
+		);
+		for (const reExport of exports.reExports) {
+			const sourceFile = resolveModuleSpecifier(file, reExport.source, knownFiles);
+			if (!sourceFile) continue;
+			const sourceTable = getExportTable(sourceFile);
+			if (reExport.names) {
+				reExport.names.forEach(({ name, alias }) => {
+					const origin = sourceTable.get(name);
+					if (origin) table!.set(alias, origin);
+				});
 			} else {
-				// Parent ID exists but parent definition not found in the list, remove parentId
-				definitions[index].parentId = undefined;
+				// `export *` never re-exports default and doesn't override explicit exports
+				sourceTable.forEach((origin, name) => {
+					if (name !== 'default' && !table!.has(name)) table!.set(name, origin);
+				});
 			}
 		}
-	});
+		return table;
+	};
+	const exportedFrom = new Map<string, ExportReference[]>(); // Keyed by `${file}\n${localName}`
+	for (const file of moduleExports.keys()) {
+		if (!jsExtensions.includes(path.extname(file).toLowerCase())) continue;
+		getExportTable(file).forEach((origin, name) => {
+			const key = `${origin.file}\n${origin.localName}`;
+			if (!exportedFrom.has(key)) exportedFrom.set(key, []);
+			exportedFrom.get(key)!.push({ module: getModulePath(targetDir, file), name });
+		});
+	}
 
-	return definitions;
+	const filtered: { [absoluteFilePath: string]: Definition[] } = {};
+	for (const absoluteFilePath in results) {
+		const definitions = results[absoluteFilePath];
+		const fileExt = path.extname(absoluteFilePath).toLowerCase();
+		const byId = new Map(definitions.map(def => [def.id, def]));
+		const pythonAll = moduleExports.get(absoluteFilePath)?.pythonAll;
+		const kept = new Map<string | undefined, Definition>();
+
+		const isTopLevel = (def: Definition): boolean => {
+			const parent = def.parentId ? byId.get(def.parentId) : undefined;
+			return !parent || (containerTypes.includes(parent.type) && isTopLevel(parent));
+		};
+		const isKept = (def: Definition): boolean => {
+			if (def.type === 'error') return true;
+			const parent = def.parentId ? byId.get(def.parentId) : undefined;
+			if (parent && !containerTypes.includes(parent.type)) {
+				// Members: the enclosing definition must be public, locals of functions never are
+				return !callableTypes.includes(parent.type) && isKept(parent) && isPublicDefinition(def, parent, fileExt);
+			}
+			if (parent && !isKept(parent)) return false;
+			if (containerTypes.includes(def.type)) return isPublicDefinition(def, parent, fileExt);
+			if (jsExtensions.includes(fileExt)) return exportedFrom.has(`${absoluteFilePath}\n${def.name}`);
+			if (fileExt === '.py' && pythonAll) return pythonAll.includes(def.name);
+			return isPublicDefinition(def, parent, fileExt);
+		};
+
+		for (const def of definitions) {
+			if (!isKept(def)) continue;
+			if (def.type === 'error' || !isTopLevel(def) || containerTypes.includes(def.type)) {
+				kept.set(def.id, def);
+				continue;
+			}
+			const references = jsExtensions.includes(fileExt)
+				? (exportedFrom.get(`${absoluteFilePath}\n${def.name}`) || []).sort((a, b) => a.module.localeCompare(b.module) || a.name.localeCompare(b.name))
+				: [{ module: getModulePath(targetDir, absoluteFilePath), name: def.name }];
+			kept.set(def.id, { ...def, exportedFrom: references });
+		}
+		// Containers without any public content are left out
+		const hasKeptChild = (def: Definition): boolean =>
+			(def.children || []).some(childId => kept.has(childId) && (!containerTypes.includes(kept.get(childId)!.type) || hasKeptChild(kept.get(childId)!)));
+		const publicDefinitions = Array.from(kept.values()).filter(def => !containerTypes.includes(def.type) || hasKeptChild(def));
+		if (publicDefinitions.length > 0) filtered[absoluteFilePath] = publicDefinitions;
+	}
+	return filtered;
 }
 
+// --- File Discovery ---
+// Finds the files to scan in targetDir: filePatterns/includePaths globbing, then .gitignore and excludePaths filtering.
+async function discoverFiles(
+	targetDir: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions = {}
+): Promise<string[]> {
+	const ignoreMatcher = await getIgnoreMatcher(targetDir);
 
-// --- CLI Argument Parsing and Execution --- Refactored
-async function runCli() {
-    const argv = await yargs(hideBin(process.argv))
-        .option('directory', {
-            alias: 'd',
-            type: 'string',
-            description: 'The directory to scan',
-            demandOption: false, // Make it optional initially to check if CLI mode is intended
-        })
-        .option('patterns', {
-            alias: 'p',
-            type: 'array',
-            string: true, // Ensure array elements are treated as strings
-            description: 'Glob patterns for file extensions to include',
-            default: defaultFilePatterns,
-        })
-        .option('format', {
-            alias: 'f',
-            type: 'string',
-            choices: ['xml', 'markdown', 'json'],
-            description: 'Output format',
-            default: 'markdown',
-        })
-        .option('detail', {
-            alias: 'l',
-            type: 'string',
-            choices: ['minimal', 'standard', 'detailed'],
-            description: 'Level of detail to include in the output',
-            default: 'standard',
-        })
-        .option('include-types', {
-            type: 'array',
-            string: true,
-            description: 'Element types to include (e.g., class,method)',
-        })
-        .option('exclude-types', {
-            type: 'array',
-            string: true,
-            description: 'Element types to exclude',
-        })
-        .option('include-modifiers', {
-            type: 'array',
-            string: true,
-            description: 'Modifiers to include (e.g., public,private)',
-        })
-        .option('exclude-modifiers', {
-            type: 'array',
-            string: true,
-            description: 'Modifiers to exclude',
-        })
-        .option('name-pattern', {
-            type: 'string',
-            description: 'Regex pattern to match element names',
-        })
-        .option('exclude-name-pattern', {
-            type: 'string',
-            description: 'Regex pattern to exclude element names',
-        })
-        .option('include-paths', {
-            type: 'array',
-            string: true,
-            description: 'Additional file path patterns to include',
-        })
-        .option('exclude-paths', {
-            type: 'array',
-            string: true,
-            description: 'File path patterns to exclude',
-        })
-        .help()
-        .alias('help', 'h')
-        .argv;
+	console.error("Starting file discovery...");
+	let files: Set<string>; // Declare files set here
 
-    // Check if --directory was provided, indicating CLI usage
-    if (argv.directory) {
-        try {
-            // Build filter options from CLI arguments
-            const filterOptions: FilterOptions = {};
+	// Check if includePaths is provided and should be restrictive
+	if (filterOptions.includePaths && filterOptions.includePaths.length > 0) {
+		console.error("`includePaths` provided, operating in restrictive mode.");
+		files = new Set<string>(); // Initialize as empty set
 
-            // Process include-types - split comma-separated values if needed
-            if (argv['include-types']) {
-                const types = argv['include-types'] as string[];
-                filterOptions.includeTypes = types.flatMap(t => t.includes(',') ? t.split(',') : t);
-            }
+		// Process only the paths specified in includePaths
+		for (const includePath of filterOptions.includePaths) {
+			// Handle potential glob patterns within includePaths if necessary,
+			// or treat them as specific files/directories.
+			// Current logic reuses the file/directory handling from below.
+			const absoluteIncludePath = path.resolve(targetDir, includePath);
+			try {
+				const stats = await fs.stat(absoluteIncludePath);
+				if (stats.isFile()) {
+					files.add(path.normalize(absoluteIncludePath));
+					console.error(`Added specific file from includePaths: ${absoluteIncludePath}`);
+				} else if (stats.isDirectory()) {
+					console.error(`Included path is a directory, scanning recursively: ${absoluteIncludePath}`);
+					// Use fg to find files within the directory, respecting basic ignores
+					const dirFiles = await fg(path.join(absoluteIncludePath, '**/*').replace(/\\/g, '/'), {
+						dot: true,
+						onlyFiles: true,
+						absolute: true,
+						ignore: ['**/node_modules/**', '**/.git/**'], // Consistent ignores
+					});
+					dirFiles.forEach(f => files.add(path.normalize(f)));
+					console.error(`Added ${dirFiles.length} files from included directory: ${absoluteIncludePath}`);
+				}
+			} catch (statError: any) {
+				// Handle cases where includePath might be a glob pattern needing fg
+				if (includePath.includes('*') || includePath.includes('?')) {
+					console.error(`Included path looks like a glob, attempting glob match: ${includePath}`);
+					try {
+						const globMatches = await fg(path.join(targetDir, includePath).replace(/\\/g, '/'), {
+							dot: true, onlyFiles: true, absolute: true, cwd: targetDir,
+							ignore: ['**/node_modules/**', '**/.git/**'],
+						});
+						globMatches.forEach(match => files.add(path.normalize(match)));
+						console.error(`Added ${globMatches.length} files from includePaths glob: ${includePath}`);
+					} catch (globError) {
+						console.error(`Error matching includePaths glob ${includePath}:`, globError);
+					}
+				} else if (statError.code === 'ENOENT') {
+					console.warn(`Warning: Included path not found: ${absoluteIncludePath}`);
+				} else {
+					console.error(`Error processing included path ${absoluteIncludePath}:`, statError);
+				}
+			}
+		}
+		console.error(`Total files after processing restrictive includePaths: ${files.size}`);
 
-            // Process exclude-types - split comma-separated values if needed
-            if (argv['exclude-types']) {
-                const types = argv['exclude-types'] as string[];
-                filterOptions.excludeTypes = types.flatMap(t => t.includes(',') ? t.split(',') : t);
-            }
+	} else {
+		// --- Standard File Discovery using filePatterns (glob) ---
+		console.error("No restrictive `includePaths`, using standard `filePatterns` globbing.");
+		const globMatchedFiles = new Set<string>(); // Store absolute paths from glob matching
 
-            // Process include-modifiers - split comma-separated values if needed
-            if (argv['include-modifiers']) {
-                const mods = argv['include-modifiers'] as string[];
-                filterOptions.includeModifiers = mods.flatMap(m => m.includes(',') ? m.split(',') : m);
-            }
+		// Combine default and provided patterns if necessary
+		const combinedPatterns = [...new Set(filePatterns)];
+		console.error(`Combined glob patterns for search: ${combinedPatterns.join(', ')}`);
 
-            // Process exclude-modifiers - split comma-separated values if needed
-            if (argv['exclude-modifiers']) {
-                const mods = argv['exclude-modifiers'] as string[];
-                filterOptions.excludeModifiers = mods.flatMap(m => m.includes(',') ? m.split(',') : m);
-            }
+		// Execute glob patterns relative to the target directory
+		const globPatterns = combinedPatterns.map(p => path.join(targetDir, p).replace(/\\/g, '/'));
+		console.error(`Absolute glob patterns for fast-glob: ${globPatterns.join(', ')}`);
 
-            if (argv['name-pattern']) filterOptions.namePattern = argv['name-pattern'] as string;
-            if (argv['exclude-name-pattern']) filterOptions.excludeNamePattern = argv['exclude-name-pattern'] as string;
+		try {
+			const globMatches = await fg(globPatterns, {
+				dot: true, onlyFiles: true, absolute: true, cwd: targetDir,
+				ignore: ['**/node_modules/**', '**/.git/**'],
+			});
+			console.error(`fast-glob matched ${globMatches.length} files initially.`);
+			globMatches.forEach(match => globMatchedFiles.add(path.normalize(match)));
+		} catch (globError) {
+			console.error("Error during fast-glob execution:", globError);
+			throw new Error("File globbing failed.");
+		}
 
-            // Process include-paths - split comma-separated values if needed
-            if (argv['include-paths']) {
-                const paths = argv['include-paths'] as string[];
-                filterOptions.includePaths = paths.flatMap(p => p.includes(',') ? p.split(',') : p);
-            }
+		files = new Set<string>(globMatchedFiles); // Start with glob results
 
-            // Process exclude-paths - split comma-separated values if needed
-            if (argv['exclude-paths']) {
-                const paths = argv['exclude-paths'] as string[];
-                filterOptions.excludePaths = paths.flatMap(p => p.includes(',') ? p.split(',') : p);
-            }
+		// --- Include specific non-glob paths (additive) ---
+		// This part only runs if includePaths was NOT restrictive
+		const nonGlobIncludes = filterOptions.includePaths?.filter(p => !p.includes('*') && !p.includes('?')) || [];
+		if (nonGlobIncludes.length > 0) {
+			console.error("Adding specific non-glob paths from `includePaths`...");
+			for (const includePath of nonGlobIncludes) {
+				const absoluteIncludePath = path.resolve(targetDir, includePath);
+				try {
+					const stats = await fs.stat(absoluteIncludePath);
+					if (stats.isFile()) {
+						files.add(path.normalize(absoluteIncludePath));
+						console.error(`Added specific file from includePaths: ${absoluteIncludePath}`);
+					} else if (stats.isDirectory()) {
+						console.error(`Included path is a directory, scanning recursively: ${absoluteIncludePath}`);
+						const dirFiles = await fg(path.join(absoluteIncludePath, '**/*').replace(/\\/g, '/'), {
+							dot: true, onlyFiles: true, absolute: true,
+							ignore: ['**/node_modules/**', '**/.git/**'],
+						});
+						dirFiles.forEach(f => files.add(path.normalize(f)));
+						console.error(`Added ${dirFiles.length} files from included directory: ${absoluteIncludePath}`);
+					}
+				} catch (statError: any) {
+					if (statError.code === 'ENOENT') {
+						console.warn(`Warning: Included path not found: ${absoluteIncludePath}`);
+					} else {
+						console.error(`Error stating included path ${absoluteIncludePath}:`, statError);
+					}
+				}
+			}
+		}
+	}
+	// --- End of Conditional File Discovery ---
 
-            const output = await performScan(
-                argv.directory,
-                argv.patterns as string[], // Cast needed due to yargs typing
-                argv.format as 'xml' | 'markdown' | 'json',
-                argv.detail as 'minimal' | 'standard' | 'detailed',
-                filterOptions
-            );
-            console.log(output); // Print result to stdout for CLI use
-            process.exit(0); // Exit successfully after CLI run
-        } catch (error: any) {
-            console.error("Error during CLI scan:", error.message);
-            process.exit(1); // Exit with error
-        }
-    } else {
-        // No --directory provided, assume MCP server mode
-        return false; // Indicate MCP mode should proceed
+	// --- Include specific non-glob paths if provided --- // This section title is now misleading, the logic is handled above. Remove/adjust comment.
+	// const files = new Set<string>(globMatchedFiles); // This line is now inside the else block
+	// The logic previously here (lines 883-911) has been integrated into the
+	// conditional blocks above (restrictive 'if' and standard 'else')
+	// to handle includePaths correctly in both scenarios.
+
+
+	// --- Filtering based on .gitignore and excludePaths ---
+	let filesToFilter = Array.from(files);
+	console.error(`Total files before gitignore/exclude filtering: ${filesToFilter.length}`);
+
+
+	// 1. Apply ignore files (.gitignore, .git/info/exclude, .codescannerignore)
+    filesToFilter = filesToFilter.filter(absPath => {
+        const relativePath = path.relative(targetDir, absPath).replace(/\\/g, '/'); // Relative path for ignore check
+        return !ignoreMatcher(relativePath);
+    });
+	console.error(`Files after gitignore filtering: ${filesToFilter.length}`);
+
+
+	// 2. Apply excludePaths filter (using minimatch)
+    const excludePatterns = filterOptions.excludePaths || [];
+    if (excludePatterns.length > 0) {
+        console.error(`Applying excludePaths patterns: ${excludePatterns.join(', ')}`);
+        const filteredFiles = filesToFilter.filter((absPath) => {
+            const relativePath = path.relative(targetDir, absPath).replace(/\\/g, '/');
+            // Check if the relative path matches any exclude pattern
+            const isExcluded = matchesExcludePaths(relativePath, excludePatterns);
+            if (isExcluded) {
+                // console.error(`Excluding file due to pattern '${excludePatterns.find(p => minimatch(relativePath, p))}': ${relativePath}`);
+            }
+            return !isExcluded; // Keep if not excluded
+        });
+		const excludedCount = filesToFilter.length - filteredFiles.length;
+		if (excludedCount > 0) {
+			console.error(`Excluded ${excludedCount} files based on excludePaths patterns.`);
+		}
+        filesToFilter = filteredFiles;
     }
-    return true; // Indicate CLI mode was handled
+	console.error(`Files after excludePaths filtering: ${filesToFilter.length}`);
+
+	return filesToFilter;
 }
 
-// --- MCP Server Setup --- (Only runs if not in CLI mode)
-const server = new Server(
-	{
-		name: "code-scanner-server",
-		version: "0.1.1",
-		description:
-			"A tool that scans code files (JS, TS, C#, PHP, CSS) for definitions like functions, classes, methods, etc., respecting .gitignore and providing line numbers. Output format: XML, Markdown, or JSON.",
-	},
-	{
-		capabilities: {
-			tools: {},
-		},
+// --- Core Scanning Logic --- Refactored
+// Discovers, parses and filters files, returning definitions keyed by path relative to the scanned directory.
+// Shared by performScan and the analysis tools (call graph, etc.) so they all see the same files.
+async function scanDirectory(
+	directory: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {}
+): Promise<{
+	targetDir: string;
+	results: { [relativePath: string]: Definition[] };
+	files: string[];
+	syntaxErrors: { [relativePath: string]: SyntaxErrorInfo[] }; // Files with syntax errors, regardless of the definition filters
+}> {
+	console.error(`Starting scan in directory: ${directory}`);
+	console.error(`File patterns: ${filePatterns.join(', ')}`);
+	console.error(`Filter options: ${JSON.stringify(filterOptions)}`);
+
+
+	// Resolve the target directory relative to the current working directory
+	const targetDir = path.resolve(process.cwd(), directory);
+	console.error(`Resolved target directory: ${targetDir}`);
+
+	try {
+		// Check if the directory exists using async fs
+		await fs.access(targetDir);
+	} catch (error) {
+		throw new Error(`Directory not found: ${targetDir}`);
 	}
-);
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-	return {
-		tools: [
+	// Reuse the warm index's file list when no files were added or removed since the last scan
+	const discoveryKey = JSON.stringify([filePatterns, filterOptions.includePaths || [], filterOptions.excludePaths || []]);
+	let filesToFilter = scanOptions.warmIndex?.discoveries.get(discoveryKey);
+	if (filesToFilter) {
+		console.error(`Using ${filesToFilter.length} files discovered by a previous scan (warm index).`);
+	} else {
+		filesToFilter = await discoverFiles(targetDir, filePatterns, filterOptions);
+		scanOptions.warmIndex?.discoveries.set(discoveryKey, filesToFilter);
+	}
+
+
+	const discoveredFiles = filesToFilter;
+	// Limit to files changed since a git ref; discovery itself stays cacheable
+	let gitChanges: Map<string, FileChanges> | undefined;
+	if (filterOptions.sinceRef) {
+		gitChanges = await getGitChanges(targetDir, filterOptions.sinceRef);
+		filesToFilter = filesToFilter.filter(absoluteFilePath => gitChanges!.has(absoluteFilePath));
+		console.error(`Files changed since ${filterOptions.sinceRef}: ${filesToFilter.length}`);
+	}
+	if (scanOptions.onlyFiles) {
+		filesToFilter = filesToFilter.filter(absoluteFilePath => scanOptions.onlyFiles!.has(absoluteFilePath));
+	}
+
+	// --- Parsing and Definition Extraction ---
+	let results: { [filePath: string]: Definition[] } = {};
+	console.error(`Parsing ${filesToFilter.length} files...`);
+
+	const querySet = await loadQuerySet(targetDir);
+	const queryVersion = getParseCacheVersion(querySet);
+	const warmIndex = scanOptions.warmIndex;
+	if (warmIndex && warmIndex.queryVersion !== queryVersion) {
+		// Project query files changed: everything indexed so far was parsed with the old queries
+		if (warmIndex.files.size > 0) console.error("Query set changed, dropping warm index entries.");
+		warmIndex.files.clear();
+		warmIndex.size = 0;
+		warmIndex.querySet = querySet;
+		warmIndex.queryVersion = queryVersion;
+	}
+	if (scanOptions.clearCache) {
+		await clearParseCache(targetDir);
+		warmIndex?.files.clear();
+		if (warmIndex) warmIndex.size = 0;
+	}
+
+	// 1. Take unchanged files from the warm index (MCP server mode), then from the on-disk cache
+	const parsedDefinitions = new Map<string, Definition[]>();
+	const parsedSyntaxErrors = new Map<string, SyntaxErrorInfo[]>();
+	const notWarmFiles: string[] = [];
+	for (const absoluteFilePath of filesToFilter) {
+		const warmEntry = warmIndex?.files.get(absoluteFilePath);
+		if (warmEntry && !warmIndex!.pending.has(absoluteFilePath)) {
+			parsedDefinitions.set(absoluteFilePath, warmEntry.definitions);
+			parsedSyntaxErrors.set(absoluteFilePath, warmEntry.syntaxErrors);
+		} else {
+			notWarmFiles.push(absoluteFilePath);
+		}
+	}
+	if (warmIndex) {
+		console.error(`Warm index: ${filesToFilter.length - notWarmFiles.length} hits, ${notWarmFiles.length} misses.`);
+	}
+
+	// Loading the disk cache is skipped entirely when every file was warm
+	const useCache = scanOptions.useCache !== false && notWarmFiles.length > 0;
+	const cache = useCache ? await loadParseCache(targetDir, queryVersion) : undefined;
+	const scannedPaths = new Set<string>();
+	let cacheHits = 0;
+
+	const filesToParse: string[] = [];
+	for (const absoluteFilePath of notWarmFiles) {
+		// Use relative path for keys in the results object for cleaner output
+		const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/'); // Use forward slashes
+		scannedPaths.add(relativePath);
+		const cached = cache?.entries[relativePath];
+		if (cached) {
+			try {
+				const content = await fs.readFile(absoluteFilePath, "utf-8");
+				if (cached.hash === hashContent(content)) {
+					parsedDefinitions.set(absoluteFilePath, cached.definitions);
+					parsedSyntaxErrors.set(absoluteFilePath, cached.syntaxErrors || []);
+					if (warmIndex) setWarmIndexEntry(warmIndex, absoluteFilePath, cached.hash, cached.definitions, cached.syntaxErrors || []);
+					cacheHits++;
+					continue;
+				}
+			} catch (error: any) {
+				// Unreadable files are reported by the parse step below
+			}
+		}
+		filesToParse.push(absoluteFilePath);
+	}
+
+	// 2. Parse the remaining files, in parallel where worthwhile
+	const parseResults = await parseFiles(filesToParse, scanOptions.concurrency ?? defaultConcurrency, querySet);
+	filesToParse.forEach((absoluteFilePath, index) => {
+		const { hash, definitions, syntaxErrors } = parseResults[index];
+		parsedDefinitions.set(absoluteFilePath, definitions);
+		parsedSyntaxErrors.set(absoluteFilePath, syntaxErrors);
+		const failed = definitions.some(def => def.type === 'error');
+		if (warmIndex && !failed) {
+			setWarmIndexEntry(warmIndex, absoluteFilePath, hash, definitions, syntaxErrors);
+			warmIndex.pending.delete(absoluteFilePath);
+		}
+		if (cache) {
+			const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
+			// Never cache failed parses, they should be retried next time
+			if (failed) {
+				delete cache.entries[relativePath];
+			} else {
+				cache.entries[relativePath] = syntaxErrors.length > 0 ? { hash, definitions, syntaxErrors } : { hash, definitions };
+			}
+		}
+	});
+
+	// 3. Collect results in discovery order so output is deterministic regardless of parallelism
+	for (const absoluteFilePath of filesToFilter) {
+		let definitions = parsedDefinitions.get(absoluteFilePath) || [];
+		const fileChanges = gitChanges?.get(absoluteFilePath);
+		if (fileChanges) {
+			const namesAtRef = fileChanges.isNew ? undefined : await getDefinitionNamesAtRef(targetDir, filterOptions.sinceRef!, absoluteFilePath, querySet);
+			definitions = markChangedDefinitions(definitions, fileChanges, namesAtRef);
+		}
+		if (definitions.length > 0) { // Only add files with definitions or errors
+			results[absoluteFilePath] = definitions; // Store with absolute path initially
+		}
+	}
+	console.error("Finished parsing files.");
+
+	if (cache) {
+		const removed = await pruneParseCache(targetDir, cache, scannedPaths);
+		console.error(`Parse cache: ${cacheHits} hits, ${notWarmFiles.length - cacheHits} misses, ${removed} stale entries removed.`);
+		await saveParseCache(targetDir, cache);
+	}
+
+	if (filterOptions.exportedOnly) {
+		results = await applyExportedOnly(targetDir, discoveredFiles, results);
+	}
+
+
+	// --- Filtering Definitions ---
+	console.error("Applying definition filters...");
+	const filteredResults: { [filePath: string]: Definition[] } = {};
+	for (const absoluteFilePath in results) {
+		const definitions = results[absoluteFilePath];
+		const filteredDefs = applyFiltersToDefinitions(definitions, filterOptions);
+
+		// Only include the file in the final results if it has non-error definitions after filtering
+		const hasRealDefinitions = filteredDefs.some(def => def.type !== 'error');
+		if (hasRealDefinitions) {
+			const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
+			filteredResults[relativePath] = filteredDefs; // Use relative path for final output keys
+			// console.error(`Filtered ${relativePath}: Kept ${filteredDefs.length} definitions.`);
+		} else {
+			// console.error(`Filtered ${relativePath}: No definitions kept.`);
+		}
+	}
+	console.error("Finished applying definition filters.");
+
+	if (warmIndex) {
+		enforceWarmIndexMemoryLimit();
+	}
+
+	// Every scanned file, including those without definitions left after filtering
+	const files = filesToFilter.map(absoluteFilePath => path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/'));
+	const syntaxErrors: { [relativePath: string]: SyntaxErrorInfo[] } = {};
+	filesToFilter.forEach((absoluteFilePath, index) => {
+		const errors = parsedSyntaxErrors.get(absoluteFilePath);
+		if (errors && errors.length > 0) syntaxErrors[files[index]] = errors;
+	});
+	return { targetDir, results: filteredResults, files, syntaxErrors };
+}
+
+async function performScan(
+	directory: string,
+	filePatterns: string[],
+	outputFormat: 'xml' | 'markdown' | 'json',
+	detailLevel: 'minimal' | 'standard' | 'detailed' = 'standard',
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {},
+	outputBudget: OutputBudget = {},
+	docFirstSentence = false // Reduce doc comments to the first sentence of their description
+): Promise<string> {
+	const startTime = Date.now();
+	console.error(`Output format: ${outputFormat}, Detail level: ${detailLevel}`);
+	const { results: scanResults } = await scanDirectory(directory, filePatterns, filterOptions, scanOptions);
+	const filteredResults = docFirstSentence ? shortenDocComments(scanResults) : scanResults;
+
+
+	// --- Formatting Output ---
+	console.error(`Formatting results as ${outputFormat}...`);
+	// Cursors are only valid for the same scan
+	const scanKey = crypto.createHash("sha1")
+		.update(JSON.stringify([path.resolve(directory), filePatterns, filterOptions, outputFormat]))
+		.digest("hex")
+		.slice(0, 12);
+	const outputText = formatResultsWithinBudget(filteredResults, outputFormat, detailLevel, directory, outputBudget, scanKey);
+	console.error("Finished formatting results.");
+	const endTime = Date.now();
+	console.error(`Scan completed in ${endTime - startTime}ms.`);
+
+
+	return outputText;
+}
+
+
+// --- Advanced Filtering Logic ---
+// Basic filters (type, modifier, annotation, name pattern, metrics) of a single definition, without parents
+function matchesDefinitionFilters(def: Definition, filterOptions: FilterOptions): boolean {
+	// Type filtering
+	if (filterOptions.includeTypes && filterOptions.includeTypes.length > 0 && !filterOptions.includeTypes.includes(def.type)) return false;
+	if (filterOptions.excludeTypes && filterOptions.excludeTypes.length > 0 && filterOptions.excludeTypes.includes(def.type)) return false;
+
+	// Modifier filtering
+	const defModifiers = def.modifiers || [];
+	if (filterOptions.includeModifiers && filterOptions.includeModifiers.length > 0) {
+		if (!filterOptions.includeModifiers.some(incMod => defModifiers.includes(incMod))) return false;
+	}
+	if (filterOptions.excludeModifiers && filterOptions.excludeModifiers.length > 0) {
+		if (filterOptions.excludeModifiers.some(exMod => defModifiers.includes(exMod))) return false;
+	}
+	if (filterOptions.hasAnnotation && filterOptions.hasAnnotation.length > 0 && !hasAnnotation(def, filterOptions.hasAnnotation)) return false;
+
+
+	// Name pattern filtering (apply to the core name without modifiers/types)
+	if (filterOptions.namePattern) {
+		try {
+			const regex = new RegExp(filterOptions.namePattern);
+			// Extract just the name part if modifiers/types are prepended (basic heuristic)
+			const nameWithoutModifier = def.name.split(' ').pop() || def.name; // Get last part after spaces
+			const fullName = def.name; // Keep full name for context if needed
+
+			// Test against both the extracted name and the full name for flexibility
+			if (!regex.test(nameWithoutModifier) && !regex.test(fullName)) return false;
+		} catch (e) {
+			console.warn(`Invalid regex for namePattern: ${filterOptions.namePattern}`);
+			return false; // Exclude if regex is invalid
+		}
+	}
+	if (filterOptions.excludeNamePattern) {
+		try {
+			const regex = new RegExp(filterOptions.excludeNamePattern);
+			const nameWithoutModifier = def.name.split(' ').pop() || def.name;
+			const fullName = def.name;
+			if (regex.test(nameWithoutModifier) || regex.test(fullName)) return false;
+		} catch (e) {
+			console.warn(`Invalid regex for excludeNamePattern: ${filterOptions.excludeNamePattern}`);
+			// Don't exclude if regex is invalid, maybe log it
+		}
+	}
+
+	// Metric filtering (apply only if metric exists on definition)
+	if (filterOptions.minComplexity !== undefined && (def.complexity === undefined || def.complexity < filterOptions.minComplexity)) return false;
+	if (filterOptions.maxComplexity !== undefined && (def.complexity === undefined || def.complexity > filterOptions.maxComplexity)) return false;
+	if (filterOptions.minParameters !== undefined && (def.parameterCount === undefined || def.parameterCount < filterOptions.minParameters)) return false;
+	if (filterOptions.maxParameters !== undefined && (def.parameterCount === undefined || def.parameterCount > filterOptions.maxParameters)) return false;
+
+	return true;
+}
+
+// This function applies filters AND handles parent/child relationships correctly.
+function applyFiltersToDefinitions(definitions: Definition[], filterOptions: FilterOptions): Definition[] {
+	if (!definitions || definitions.length === 0) return [];
+
+	// Make a deep copy to avoid modifying the original array during filtering
+	const definitionsCopy: Definition[] = JSON.parse(JSON.stringify(definitions));
+
+	// Separate metadata/error entries if they exist (assuming type 'error' or 'metadata')
+	const metaEntries = definitionsCopy.filter(def => def.type === 'error' || def.type === 'metadata');
+	const nonMetaEntries = definitionsCopy.filter(def => def.type !== 'error' && def.type !== 'metadata');
+
+	// 1. Apply basic filters (type, modifier, name patterns) to non-meta entries
+	const basicFilteredEntries = nonMetaEntries.filter(def => matchesDefinitionFilters(def, filterOptions));
+
+	// 2. Build the initial set of IDs to include (basic filtered entries)
+	const entriesToInclude = new Set(basicFilteredEntries.map(def => def.id));
+
+	// 3. Add parents of included entries recursively
+	// Use a Set to avoid infinite loops in case of cyclic dependencies (shouldn't happen)
+	const processedForParents = new Set<string>();
+	let itemsToAdd = [...basicFilteredEntries]; // Start with the initially filtered items
+
+	while (itemsToAdd.length > 0) {
+		const current = itemsToAdd.pop();
+		if (!current || !current.id || processedForParents.has(current.id)) {
+			continue; // Skip if no current item, no ID, or already processed
+		}
+		processedForParents.add(current.id);
+
+		if (current.parentId && !entriesToInclude.has(current.parentId)) {
+			const parent = definitionsCopy.find(p => p.id === current.parentId); // Find in the original copy
+			if (parent && parent.id) {
+				// Check if the parent itself should be excluded by name pattern
+				if (filterOptions.excludeNamePattern) {
+					try {
+						const regex = new RegExp(filterOptions.excludeNamePattern);
+						if (regex.test(parent.name)) { // Modifiers are kept apart from names
+							continue; // Skip adding this excluded parent and processing its parents
+						}
+					} catch (e) {
+						console.error(`Invalid regex for excludeNamePattern: ${filterOptions.excludeNamePattern}`, e);
+						// Decide how to handle invalid regex: skip exclusion or throw error? Skipping for now.
+					}
+				}
+				// If not excluded, add it
+				entriesToInclude.add(parent.id);
+				itemsToAdd.push(parent); // Add parent to the queue to check its parents
+			}
+		}
+	}
+
+
+	// 4. Add children of included entries recursively (optional, depends on desired behavior)
+	// If you want to include all descendants of a matched item:
+	// Commented-out legacy code removed
+
+	// 5. Filter the original deep copy based on the final set of IDs to include
+	let result = definitionsCopy.filter(def => def.id && entriesToInclude.has(def.id));
+
+	// 6. Rebuild children arrays for the final filtered list
+	const finalIds = new Set(result.map(def => def.id));
+	result.forEach(def => {
+		if (def.children) {
+			def.children = def.children.filter(childId => finalIds.has(childId));
+		}
+		// Ensure parentId is valid within the filtered set, otherwise remove it
+		if (def.parentId && !finalIds.has(def.parentId)) {
+			def.parentId = undefined;
+		}
+	});
+
+	// 7. Add back the metadata/error entries
+	result = [...metaEntries, ...result];
+
+
+	// 8. Final sort (optional, e.g., by start line)
+	result.sort((a, b) => a.startLine - b.startLine);
+
+
+	return result;
+}
+
+
+// --- Parent-Child Relationship Update ---
+// This function ensures parentId and children arrays are consistent after potential modifications
+function updateParentChildRelationships(definitions: Definition[]): Definition[] {
+	if (!definitions) return [];
+	const idToIndexMap = new Map(definitions.map((def, index) => [def.id, index]));
+
+	definitions.forEach((def, index) => {
+		// Reset children array for recalculation
+		definitions[index].children = [];
+	});
+
+	definitions.forEach((def, index) => {
+		if (def.parentId) {
+			const parentIndex = idToIndexMap.get(def.parentId);
+			if (parentIndex !== undefined) {
+				// Ensure parent's children array exists
+				if (!definitions[parentIndex].children) {
+					definitions[parentIndex].children = [];
+				}
+				// Add current def ID to parent's children if not already present
+				if (def.id && !definitions[parentIndex].children!.includes(def.id)) {
+					definitions[parentIndex].children!.push(def.id);
+				}
+			} else {
+				// Parent ID exists but parent definition not found in the list, remove parentId
+				definitions[index].parentId = undefined;
+			}
+		}
+	});
+
+	return definitions;
+}
+
+
+// --- Call Graph ---
+// Resolves the bare call names collected in Definition.calls to definitions across all scanned files.
+
+type CallGraphDirection = 'callers' | 'callees' | 'both';
+type GraphFormat = 'json' | 'mermaid' | 'dot';
+
+interface CallGraphNode {
+	id: string; // Globally unique: "<relative file path>#<definition id>"
+	file: string;
+	name: string;
+	qualifiedName: string; // Parent names joined with '.', e.g. "MyClass.myMethod"
+	type: string;
+	startLine: number;
+	endLine: number;
+}
+
+interface CallGraphEdge {
+	from: string;
+	to: string;
+	callName: string;
+	// 'ambiguous' edges point at one of several equally plausible targets
+	resolution: 'resolved' | 'ambiguous';
+}
+
+interface CallGraph {
+	symbol: string;
+	direction: CallGraphDirection;
+	depth: number;
+	roots: string[];
+	nodes: CallGraphNode[];
+	edges: CallGraphEdge[];
+	ambiguousCalls: { from: string; callName: string; candidates: string[] }[];
+	unresolvedCalls: { from: string; callName: string }[]; // Calls with no matching definition (external/library code)
+}
+
+const callableTypes = ['function', 'method', 'mixin'];
+
+// Calls only reach definitions of the same language; JS and TS (like CSS and SCSS) call each other
+function getCallLanguage(file: string): string {
+	const fileExt = path.extname(file).toLowerCase();
+	if (jsExtensions.includes(fileExt)) return '.js';
+	return fileExt === '.css' ? '.scss' : fileExt;
+}
+
+// Builds the qualified name of a definition by walking its parentId chain within the file
+function getQualifiedName(def: Definition, definitions: Definition[]): string {
+	const names = [def.name];
+	const seen = new Set<string>();
+	let current = def;
+	while (current.parentId && !seen.has(current.parentId)) {
+		seen.add(current.parentId);
+		const parent = definitions.find(d => d.id === current.parentId);
+		if (!parent) break;
+		names.unshift(parent.name);
+		current = parent;
+	}
+	return names.join('.');
+}
+
+function buildCallGraph(
+	results: { [relativePath: string]: Definition[] },
+	symbol: string,
+	direction: CallGraphDirection = 'both',
+	depth: number = 2,
+	file?: string
+): CallGraph {
+	// 1. Index every callable definition. Some grammars (e.g. Python) match the same node as both
+	// 'function' and 'method', so de-duplicate by location and prefer the 'method' entry.
+	const nodes = new Map<string, CallGraphNode>();
+	const callsByNode = new Map<string, string[]>();
+	const byLocation = new Map<string, string>();
+	for (const filePath of Object.keys(results).sort()) {
+		const definitions = results[filePath];
+		for (const def of definitions) {
+			if (!def.id || !callableTypes.includes(def.type)) continue;
+			const locationKey = `${filePath}:${def.startLine}:${def.endLine}:${def.name}`;
+			const existingId = byLocation.get(locationKey);
+			if (existingId) {
+				if (def.type !== 'method') continue;
+				nodes.delete(existingId);
+				callsByNode.delete(existingId);
+			}
+			const node: CallGraphNode = {
+				id: `${filePath}#${def.id}`,
+				file: filePath,
+				name: def.name,
+				qualifiedName: getQualifiedName(def, definitions),
+				type: def.type,
+				startLine: def.startLine,
+				endLine: def.endLine,
+			};
+			byLocation.set(locationKey, node.id);
+			nodes.set(node.id, node);
+			callsByNode.set(node.id, def.calls || []);
+		}
+	}
+
+	const nodesByName = new Map<string, CallGraphNode[]>();
+	for (const node of nodes.values()) {
+		const candidates = nodesByName.get(node.name) || [];
+		candidates.push(node);
+		nodesByName.set(node.name, candidates);
+	}
+
+	// 2. Resolve every call once among the definitions of the caller's language. A unique match is
+	// resolved; otherwise a unique match in the caller's own file wins; anything else is recorded as
+	// ambiguous with all candidates kept.
+	const allEdges: CallGraphEdge[] = [];
+	const ambiguousCalls: CallGraph['ambiguousCalls'] = [];
+	const unresolvedCalls: CallGraph['unresolvedCalls'] = [];
+	for (const [fromId, calls] of callsByNode) {
+		const caller = nodes.get(fromId)!;
+		for (const callName of calls) {
+			const candidates = (nodesByName.get(callName) || []).filter(c => getCallLanguage(c.file) === getCallLanguage(caller.file));
+			if (candidates.length === 0) {
+				unresolvedCalls.push({ from: fromId, callName });
+				continue;
+			}
+			const sameFile = candidates.filter(c => c.file === caller.file);
+			const resolved = candidates.length === 1 ? candidates : sameFile.length === 1 ? sameFile : [];
+			if (resolved.length === 1) {
+				allEdges.push({ from: fromId, to: resolved[0].id, callName, resolution: 'resolved' });
+			} else {
+				ambiguousCalls.push({ from: fromId, callName, candidates: candidates.map(c => c.id) });
+				candidates.forEach(c => allEdges.push({ from: fromId, to: c.id, callName, resolution: 'ambiguous' }));
+			}
+		}
+	}
+
+	// 3. Find the root definition(s) for the requested symbol (name, qualified name or qualified suffix)
+	const normalizedFile = file?.replace(/\\/g, '/');
+	const roots = Array.from(nodes.values()).filter(node =>
+		(node.name === symbol || node.qualifiedName === symbol || node.qualifiedName.endsWith(`.${symbol}`)) &&
+		(!normalizedFile || node.file === normalizedFile || node.file.endsWith(`/${normalizedFile}`))
+	);
+	if (roots.length === 0) {
+		throw new Error(`No function or method matching '${symbol}'${file ? ` in ${file}` : ''} was found.`);
+	}
+
+	// 4. Breadth-first traversal from the roots up to the requested depth
+	const includedNodes = new Set<string>(roots.map(r => r.id));
+	const includedEdges = new Set<CallGraphEdge>();
+	const walk = (forward: boolean) => {
+		let frontier = roots.map(r => r.id);
+		for (let level = 0; level < depth && frontier.length > 0; level++) {
+			const next: string[] = [];
+			for (const edge of allEdges) {
+				const [here, there] = forward ? [edge.from, edge.to] : [edge.to, edge.from];
+				if (!frontier.includes(here)) continue;
+				includedEdges.add(edge);
+				if (!includedNodes.has(there)) {
+					includedNodes.add(there);
+					next.push(there);
+				}
+			}
+			frontier = next;
+		}
+	};
+	if (direction === 'callees' || direction === 'both') walk(true);
+	if (direction === 'callers' || direction === 'both') walk(false);
+
+	return {
+		symbol,
+		direction,
+		depth,
+		roots: roots.map(r => r.id),
+		nodes: Array.from(includedNodes).map(id => nodes.get(id)!),
+		edges: allEdges.filter(edge => includedEdges.has(edge)),
+		ambiguousCalls: ambiguousCalls.filter(a => includedNodes.has(a.from)),
+		unresolvedCalls: unresolvedCalls.filter(u => includedNodes.has(u.from)),
+	};
+}
+
+function formatCallGraph(graph: CallGraph, format: GraphFormat): string {
+	if (format === 'json') {
+		return JSON.stringify(graph, null, 2);
+	}
+
+	// Mermaid and DOT need short, safe node identifiers
+	const shortIds = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+	const label = (node: CallGraphNode) => `${node.qualifiedName}\n${node.file}:${node.startLine}`;
+
+	if (format === 'mermaid') {
+		const lines = ['flowchart LR'];
+		graph.nodes.forEach(node => {
+			lines.push(`  ${shortIds.get(node.id)}["${label(node).replace(/"/g, '#quot;').replace(/\n/g, '<br/>')}"]`);
+		});
+		graph.edges.forEach(edge => {
+			const arrow = edge.resolution === 'ambiguous' ? '-.->|ambiguous|' : '-->';
+			lines.push(`  ${shortIds.get(edge.from)} ${arrow} ${shortIds.get(edge.to)}`);
+		});
+		graph.roots.forEach(rootId => lines.push(`  style ${shortIds.get(rootId)} stroke-width:3px`));
+		return lines.join('\n') + '\n';
+	}
+
+	// Graphviz DOT
+	const escapeDot = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+	const lines = ['digraph CallGraph {', '  rankdir=LR;', '  node [shape=box];'];
+	graph.nodes.forEach(node => {
+		const style = graph.roots.includes(node.id) ? ', style=bold' : '';
+		lines.push(`  ${shortIds.get(node.id)} [label="${escapeDot(label(node))}"${style}];`);
+	});
+	graph.edges.forEach(edge => {
+		const attrs = edge.resolution === 'ambiguous' ? ' [style=dashed, label="ambiguous"]' : '';
+		lines.push(`  ${shortIds.get(edge.from)} -> ${shortIds.get(edge.to)}${attrs};`);
+	});
+	lines.push('}');
+	return lines.join('\n') + '\n';
+}
+
+// --- Dependency Graph ---
+// File- and package-level import graph: a separate pass reads import/require/using/use statements,
+// resolves them to scanned files where possible and lists everything else as external packages.
+
+interface ImportStatement {
+	specifier: string; // Normalized per language: module path, dotted/namespaced name or file path
+	line: number;
+	kind: 'module' | 'path' | 'mod'; // 'path' = file path (PHP require), 'mod' = Rust `mod name;`
+}
+
+interface ModuleImports {
+	imports: ImportStatement[];
+	package?: string; // Declared namespace/package (C#, Java, PHP)
+}
+
+interface DependencyGraphFile {
+	package: string;
+	imports: string[]; // Scanned files this file imports
+	external: string[]; // External packages/namespaces
+	unresolved: string[]; // Relative or project imports that didn't resolve to a scanned file
+}
+
+interface DependencyGraph {
+	files: { [relativePath: string]: DependencyGraphFile };
+	packages: { [name: string]: { files: string[]; imports: string[]; external: string[] } };
+	cycles: string[][]; // Each cycle as a path that ends where it starts
+	packageCycles: string[][];
+}
+
+type DependencyLevel = 'file' | 'package';
+
+const jsImportQuery = `
+	(import_statement source: (string (string_fragment) @source))
+	(export_statement source: (string (string_fragment) @source))
+	(call_expression function: (identifier) @_fn arguments: (arguments . (string (string_fragment) @source)) (#eq? @_fn "require"))
+	(call_expression function: (import) arguments: (arguments . (string (string_fragment) @source)))`;
+
+// Statements are captured whole where the specifier needs normalizing in code
+const importQueries: { [ext: string]: string } = {
+	".js": jsImportQuery,
+	".jsx": jsImportQuery,
+	".ts": jsImportQuery,
+	".tsx": jsImportQuery,
+	".py": `
+		(import_statement name: [(dotted_name) @source (aliased_import name: (dotted_name) @source)])
+		(import_from_statement module_name: [(dotted_name) (relative_import)] @source)`,
+	".cs": `
+		(using_directive) @using
+		(namespace_declaration name: (_) @package)
+		(file_scoped_namespace_declaration name: (_) @package)`,
+	".php": `
+		(namespace_use_declaration) @use
+		[(require_expression) (require_once_expression) (include_expression) (include_once_expression)] @require
+		(namespace_definition name: (namespace_name) @package)`,
+	".java": `
+		(import_declaration) @import
+		(package_declaration [(scoped_identifier) (identifier)] @package)`,
+	".go": `(import_spec path: (interpreted_string_literal) @source)`,
+	".rs": `
+		(use_declaration argument: (_) @use)
+		(mod_item !body name: (identifier) @mod)`,
+};
+
+// Normalizes one capture of importQueries into import statements
+function getImportStatements(capture: Parser.QueryCapture, fileExt: string): ImportStatement[] {
+	const node = capture.node;
+	const line = node.startPosition.row + 1;
+	const text = node.text;
+	switch (capture.name) {
+		case 'source':
+			return [{ specifier: fileExt === '.go' ? text.slice(1, -1) : text, line, kind: 'module' }];
+		case 'using': {
+			// `using Alias = Target;` names the alias first
+			const target = node.namedChildren.filter(child => child.type === 'qualified_name' || child.type === 'identifier').pop();
+			return target ? [{ specifier: target.text, line, kind: 'module' }] : [];
+		}
+		case 'use': {
+			if (fileExt === '.rs') {
+				// Strip use lists, aliases and globs: `crate::a::{B, c}` -> crate::a
+				const specifier = text.replace(/::\{[\s\S]*\}$/, '').replace(/\s+as\s+\w+$/, '').replace(/::\*$/, '');
+				return [{ specifier, line, kind: 'module' }];
+			}
+			// PHP: `use A\B;`, `use A\{B, C as D};`, `use function A\b;`
+			const group = node.childForFieldName('body');
+			const prefix = group ? node.namedChildren.find(child => child.type === 'namespace_name')?.text : undefined;
+			const clauses = (group || node).namedChildren.filter(child => child.type === 'namespace_use_clause');
+			return clauses.map(clause => {
+				const name = clause.namedChildren.find(child => child.type === 'qualified_name' || child.type === 'name')?.text || '';
+				return { specifier: (prefix ? `${prefix}\\${name}` : name).replace(/^\\/, ''), line, kind: 'module' as const };
+			}).filter(statement => statement.specifier);
+		}
+		case 'require': {
+			// Only the string part of e.g. `__DIR__ . "/lib.php"` is known statically
+			const strings = node.descendantsOfType('string_content');
+			const filePath = strings.length > 0 ? strings[strings.length - 1].text : undefined;
+			return filePath ? [{ specifier: filePath, line, kind: 'path' }] : [];
+		}
+		case 'import': {
+			// Java: `import static a.B.c;` imports a member of class a.B
+			const isStatic = node.children.some(child => child.type === 'static');
+			let specifier = text.replace(/^import\s+(static\s+)?/, '').replace(/\s*;\s*$/, '').replace(/\s+/g, '');
+			if (isStatic && !specifier.endsWith('.*')) specifier = specifier.replace(/\.[^.]+$/, '');
+			return [{ specifier, line, kind: 'module' }];
+		}
+		case 'mod':
+			return [{ specifier: text, line, kind: 'mod' }];
+		default:
+			return [];
+	}
+}
+
+async function readModuleImports(absoluteFilePath: string): Promise<ModuleImports | undefined> {
+	const fileExt = path.extname(absoluteFilePath).toLowerCase();
+	const queryStr = importQueries[fileExt];
+	if (!queryStr) return undefined;
+	const language = languageMap[fileExt];
+	try {
+		parser.setLanguage(language);
+		const tree = parser.parse(await fs.readFile(absoluteFilePath, "utf-8"));
+		const moduleImports: ModuleImports = { imports: [] };
+		for (const capture of getCompiledQuery(fileExt, language, queryStr).captures(tree.rootNode)) {
+			if (capture.name === 'package') {
+				moduleImports.package ??= capture.node.text.replace(/\s+/g, '');
+			} else {
+				moduleImports.imports.push(...getImportStatements(capture, fileExt));
+			}
+		}
+		return moduleImports;
+	} catch (error: any) {
+		console.error(`Could not read imports of ${absoluteFilePath}: ${error.message}`);
+		return undefined;
+	}
+}
+
+// compilerOptions.paths aliases of the nearest tsconfig.json, with targets resolved to absolute paths
+interface TsconfigPaths {
+	baseUrl?: string;
+	paths: { pattern: string; targets: string[] }[];
+}
+
+// Reads a tsconfig file (JSON with comments and trailing commas), following relative `extends`
+async function readTsconfigCompilerOptions(configPath: string, seen = new Set<string>()): Promise<{ baseUrl?: string; paths?: { [pattern: string]: string[] }; pathsBase?: string }> {
+	if (seen.has(configPath)) return {};
+	seen.add(configPath);
+	let config: any;
+	try {
+		const content = await fs.readFile(configPath, "utf-8");
+		const json = content
+			.replace(/("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, str) => str ?? '')
+			.replace(/,(\s*[}\]])/g, '$1');
+		config = JSON.parse(json);
+	} catch (error: any) {
+		console.warn(`Warning: Could not read ${configPath}: ${error.message}`);
+		return {};
+	}
+	const configDir = path.dirname(configPath);
+	let options: { baseUrl?: string; paths?: { [pattern: string]: string[] }; pathsBase?: string } = {};
+	if (typeof config.extends === 'string' && config.extends.startsWith('.')) {
+		const parentPath = path.resolve(configDir, config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`);
+		options = await readTsconfigCompilerOptions(parentPath, seen);
+	}
+	const compilerOptions = config.compilerOptions || {};
+	if (typeof compilerOptions.baseUrl === 'string') options.baseUrl = path.resolve(configDir, compilerOptions.baseUrl);
+	if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+		options.paths = compilerOptions.paths;
+		options.pathsBase = configDir; // Without baseUrl, paths are relative to the config that defines them
+	}
+	return options;
+}
+
+async function loadTsconfigPaths(targetDir: string): Promise<TsconfigPaths> {
+	const configPath = await findUp("tsconfig.json", { cwd: targetDir });
+	if (!configPath) return { paths: [] };
+	const options = await readTsconfigCompilerOptions(configPath);
+	const pathsBase = options.baseUrl || options.pathsBase || path.dirname(configPath);
+	return {
+		baseUrl: options.baseUrl,
+		paths: Object.entries(options.paths || {}).map(([pattern, targets]) => ({
+			pattern,
+			targets: (Array.isArray(targets) ? targets : []).map(target => path.resolve(pathsBase, target)),
+		})),
+	};
+}
+
+interface ImportResolutionContext {
+	targetDir: string;
+	knownFiles: Set<string>;
+	relativeFiles: string[]; // Known files relative to targetDir, forward slashes
+	declaredPackages: Map<string, string[]>; // Namespace/package -> files declaring it
+	tsconfig: TsconfigPaths;
+	goModules: Map<string, { name: string; dir: string }>; // Directory of a Go file -> its nearest go.mod module
+}
+
+type ImportResolution = { files: string[] } | { external: string } | { unresolved: string };
+
+// Files whose path (without extension) ends with one of the given suffixes, preferring the longest suffix
+function findFilesBySuffix(context: ImportResolutionContext, segments: string[], fileExt: string, indexNames: string[] = []): string[] {
+	for (let count = segments.length; count >= 1; count--) {
+		const suffix = segments.slice(0, count).join('/');
+		const suffixes = [suffix, ...indexNames.map(name => `${suffix}/${name}`)].map(s => `${s}${fileExt}`);
+		const matches = context.relativeFiles.filter(file => suffixes.some(s => file === s || file.endsWith(`/${s}`)));
+		if (matches.length > 0) return matches.map(file => path.join(context.targetDir, file));
+	}
+	return [];
+}
+
+function resolveJsImport(fromFile: string, specifier: string, context: ImportResolutionContext): ImportResolution {
+	if (specifier.startsWith('.')) {
+		const file = resolveModuleSpecifier(fromFile, specifier, context.knownFiles);
+		return file ? { files: [file] } : { unresolved: specifier };
+	}
+	for (const { pattern, targets } of context.tsconfig.paths) {
+		const star = pattern.indexOf('*');
+		const matched = star < 0
+			? (specifier === pattern ? '' : undefined)
+			: (specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1)) && specifier.length >= pattern.length - 1
+				? specifier.slice(star, specifier.length - (pattern.length - star - 1))
+				: undefined);
+		if (matched === undefined) continue;
+		for (const target of targets) {
+			const file = resolveJsModulePath(target.replace('*', matched), context.knownFiles);
+			if (file) return { files: [file] };
+		}
+		return { unresolved: specifier };
+	}
+	if (context.tsconfig.baseUrl) {
+		const file = resolveJsModulePath(path.resolve(context.tsconfig.baseUrl, specifier), context.knownFiles);
+		if (file) return { files: [file] };
+	}
+	const packageName = specifier.startsWith('@') ? specifier.split('/').slice(0, 2).join('/') : specifier.split('/')[0];
+	return { external: packageName };
+}
+
+function resolvePythonImport(fromFile: string, specifier: string, context: ImportResolutionContext): ImportResolution {
+	const relative = specifier.match(/^(\.+)(.*)$/);
+	if (relative) {
+		// One dot is the current package, each further dot goes up one level
+		let directory = path.dirname(fromFile);
+		for (let i = 1; i < relative[1].length; i++) directory = path.dirname(directory);
+		const base = path.join(directory, ...relative[2].split('.').filter(Boolean));
+		const file = [`${base}.py`, path.join(base, '__init__.py')].find(candidate => context.knownFiles.has(candidate));
+		return file ? { files: [file] } : { unresolved: specifier };
+	}
+	// Absolute imports only resolve under the source roots, like Python's sys.path; anything else is a library
+	const segments = specifier.split('.');
+	const roots = getPythonSourceRoots(fromFile, context);
+	for (let count = segments.length; count >= 1; count--) {
+		for (const root of roots) {
+			const base = path.join(root, ...segments.slice(0, count));
+			// A module never imports itself: `import json` inside json.py is the standard library's
+			const file = [`${base}.py`, path.join(base, '__init__.py')].find(candidate => candidate !== fromFile && context.knownFiles.has(candidate));
+			if (file) return { files: [file] };
+		}
+	}
+	return { external: segments[0] };
+}
+
+// The directory holding the file's top-level package (the file's own directory outside packages),
+// then the scanned directory and its src/ layout directory
+function getPythonSourceRoots(fromFile: string, context: ImportResolutionContext): string[] {
+	let directory = path.dirname(fromFile);
+	while (directory !== context.targetDir && context.knownFiles.has(path.join(directory, '__init__.py'))) {
+		directory = path.dirname(directory);
+	}
+	return Array.from(new Set([directory, context.targetDir, path.join(context.targetDir, 'src')]));
+}
+
+function resolveImport(fromFile: string, statement: ImportStatement, context: ImportResolutionContext): ImportResolution {
+	const fileExt = path.extname(fromFile).toLowerCase();
+	const { specifier } = statement;
+	switch (fileExt) {
+		case '.js':
+		case '.jsx':
+		case '.ts':
+		case '.tsx':
+			return resolveJsImport(fromFile, specifier, context);
+		case '.py':
+			return resolvePythonImport(fromFile, specifier, context);
+		case '.cs': {
+			const files = context.declaredPackages.get(specifier);
+			return files ? { files } : { external: specifier };
+		}
+		case '.java': {
+			if (specifier.endsWith('.*')) {
+				const packageName = specifier.slice(0, -2);
+				const files = context.declaredPackages.get(packageName);
+				if (files) return { files };
+				const classFiles = findFilesBySuffix(context, packageName.split('.'), '.java');
+				return classFiles.length > 0 ? { files: classFiles } : { external: packageName };
+			}
+			const files = findFilesBySuffix(context, specifier.split('.'), '.java').filter(file =>
+				file.replace(/\\/g, '/').endsWith(`/${specifier.split('.').filter(s => /^\p{Lu}/u.test(s))[0] || ''}.java`)
+			);
+			const packageName = specifier.split('.').filter((s, i, all) => all.slice(0, i + 1).every(p => !/^\p{Lu}/u.test(p))).join('.');
+			return files.length > 0 ? { files } : { external: packageName || specifier };
+		}
+		case '.php': {
+			if (statement.kind === 'path') {
+				const file = path.resolve(path.dirname(fromFile), specifier.replace(/^[\\/]/, ''));
+				return context.knownFiles.has(file) ? { files: [file] } : { unresolved: specifier };
+			}
+			// PSR-4 style: namespace segments match the directory layout
+			const segments = specifier.split('\\');
+			const files = findFilesBySuffix(context, segments, '.php').filter(file => path.basename(file, '.php') === segments[segments.length - 1]);
+			if (files.length > 0) return { files };
+			const namespace = segments.slice(0, -1).join('\\');
+			const namespaceFiles = context.declaredPackages.get(specifier) || context.declaredPackages.get(namespace);
+			return namespaceFiles ? { files: namespaceFiles } : { external: namespace || specifier };
+		}
+		case '.go': {
+			const goModule = context.goModules.get(path.dirname(fromFile));
+			if (goModule && (specifier === goModule.name || specifier.startsWith(`${goModule.name}/`))) {
+				const directory = path.join(goModule.dir, specifier.slice(goModule.name.length));
+				const files = Array.from(context.knownFiles).filter(file => path.dirname(file) === directory && file.endsWith('.go'));
+				return files.length > 0 ? { files } : { unresolved: specifier };
+			}
+			return { external: specifier };
+		}
+		case '.rs': {
+			const fileStem = path.basename(fromFile, '.rs');
+			// Submodules of mod.rs/lib.rs/main.rs live next to them, others in a directory named after the file
+			const moduleDir = ['mod', 'lib', 'main'].includes(fileStem) ? path.dirname(fromFile) : path.join(path.dirname(fromFile), fileStem);
+			if (statement.kind === 'mod') {
+				const file = [path.join(moduleDir, `${specifier}.rs`), path.join(moduleDir, specifier, 'mod.rs')].find(candidate => context.knownFiles.has(candidate));
+				return file ? { files: [file] } : { unresolved: `mod ${specifier}` };
+			}
+			const segments = specifier.split('::');
+			if (['crate', 'self', 'super'].includes(segments[0])) {
+				const files = findFilesBySuffix(context, segments.slice(1), '.rs', ['mod']);
+				return files.length > 0 ? { files: files.slice(0, 1) } : { unresolved: specifier };
+			}
+			return { external: segments[0] };
+		}
+		default:
+			return { unresolved: specifier };
+	}
+}
+
+// Strongly connected components with more than one member (or a self-import), each reported as a cycle path
+function findImportCycles(edges: Map<string, Set<string>>): string[][] {
+	let index = 0;
+	const indexes = new Map<string, number>();
+	const lowLinks = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+	const connect = (node: string) => {
+		indexes.set(node, index);
+		lowLinks.set(node, index);
+		index++;
+		stack.push(node);
+		onStack.add(node);
+		for (const next of edges.get(node) || []) {
+			if (!indexes.has(next)) {
+				connect(next);
+				lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(next)!));
+			} else if (onStack.has(next)) {
+				lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(next)!));
+			}
+		}
+		if (lowLinks.get(node) === indexes.get(node)) {
+			const component: string[] = [];
+			let member: string;
+			do {
+				member = stack.pop()!;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== node);
+			components.push(component);
+		}
+	};
+	Array.from(edges.keys()).sort().forEach(node => { if (!indexes.has(node)) connect(node); });
+
+	return components
+		.filter(component => component.length > 1 || edges.get(component[0])?.has(component[0]))
+		.map(component => {
+			// Shortest path from the first member back to itself, within the component
+			const members = new Set(component);
+			const start = component.slice().sort()[0];
+			const previous = new Map<string, string>();
+			const queue = [start];
+			while (queue.length > 0) {
+				const node = queue.shift()!;
+				const nextNodes = Array.from(edges.get(node) || []).filter(next => members.has(next)).sort();
+				if (nextNodes.includes(start)) {
+					const cycle = [node];
+					while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0])!);
+					return [...cycle, start];
+				}
+				for (const next of nextNodes) {
+					if (!previous.has(next) && next !== start) {
+						previous.set(next, node);
+						queue.push(next);
+					}
+				}
+			}
+			return [start, start];
+		})
+		.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+async function buildDependencyGraph(targetDir: string, files: string[]): Promise<DependencyGraph> {
+	const moduleImports = new Map<string, ModuleImports>();
+	for (const file of files) {
+		const imports = await readModuleImports(file);
+		if (imports) moduleImports.set(file, imports);
+	}
+	const toRelative = (file: string) => path.relative(targetDir, file).replace(/\\/g, '/');
+
+	const declaredPackages = new Map<string, string[]>();
+	moduleImports.forEach((imports, file) => {
+		if (!imports.package) return;
+		if (!declaredPackages.has(imports.package)) declaredPackages.set(imports.package, []);
+		declaredPackages.get(imports.package)!.push(file);
+	});
+	const goModules: ImportResolutionContext['goModules'] = new Map();
+	for (const directory of new Set(files.filter(file => file.endsWith('.go')).map(file => path.dirname(file)))) {
+		const goModPath = await findUp("go.mod", { cwd: directory });
+		const name = goModPath ? (await fs.readFile(goModPath, "utf-8")).match(/^module\s+(\S+)/m)?.[1] : undefined;
+		if (goModPath && name) goModules.set(directory, { name, dir: path.dirname(goModPath) });
+	}
+	const context: ImportResolutionContext = {
+		targetDir,
+		knownFiles: new Set(files),
+		relativeFiles: files.map(toRelative),
+		declaredPackages,
+		tsconfig: await loadTsconfigPaths(targetDir),
+		goModules,
+	};
+
+	const graph: DependencyGraph = { files: {}, packages: {}, cycles: [], packageCycles: [] };
+	const fileEdges = new Map<string, Set<string>>();
+	for (const file of Array.from(moduleImports.keys()).sort()) {
+		const imports = moduleImports.get(file)!;
+		const relativePath = toRelative(file);
+		const directory = path.posix.dirname(relativePath);
+		const entry: DependencyGraphFile = { package: imports.package || directory, imports: [], external: [], unresolved: [] };
+		for (const statement of imports.imports) {
+			const resolution = resolveImport(file, statement, context);
+			if ('files' in resolution) {
+				// Namespace/package imports also match the importing file itself
+				entry.imports.push(...resolution.files.map(toRelative).filter(target => target !== relativePath));
+			} else if ('external' in resolution) {
+				entry.external.push(resolution.external);
+			} else {
+				entry.unresolved.push(resolution.unresolved);
+			}
+		}
+		entry.imports = [...new Set(entry.imports)].sort();
+		entry.external = [...new Set(entry.external)].sort();
+		entry.unresolved = [...new Set(entry.unresolved)].sort();
+		graph.files[relativePath] = entry;
+		fileEdges.set(relativePath, new Set(entry.imports));
+	}
+
+	// Package level: a package imports the packages of the files its files import
+	const packageEdges = new Map<string, Set<string>>();
+	for (const relativePath of Object.keys(graph.files).sort()) {
+		const entry = graph.files[relativePath];
+		const packageEntry = graph.packages[entry.package] ??= { files: [], imports: [], external: [] };
+		packageEntry.files.push(relativePath);
+		packageEntry.external = [...new Set([...packageEntry.external, ...entry.external])].sort();
+		if (!packageEdges.has(entry.package)) packageEdges.set(entry.package, new Set());
+		entry.imports.forEach(target => {
+			const targetPackage = graph.files[target]?.package;
+			if (targetPackage && targetPackage !== entry.package) packageEdges.get(entry.package)!.add(targetPackage);
+		});
+	}
+	packageEdges.forEach((targets, name) => graph.packages[name].imports = Array.from(targets).sort());
+	graph.packages = Object.fromEntries(Object.entries(graph.packages).sort(([a], [b]) => a.localeCompare(b)));
+
+	graph.cycles = findImportCycles(fileEdges);
+	graph.packageCycles = findImportCycles(packageEdges);
+	return graph;
+}
+
+// Dependency graph of the files scanDirectory would parse (only path filters apply)
+async function getDependencyGraph(directory: string, filePatterns: string[], filterOptions: FilterOptions = {}): Promise<DependencyGraph> {
+	const targetDir = path.resolve(directory);
+	const files = await discoverFiles(targetDir, filePatterns, { includePaths: filterOptions.includePaths, excludePaths: filterOptions.excludePaths });
+	return buildDependencyGraph(targetDir, files);
+}
+
+function formatDependencyGraph(graph: DependencyGraph, format: GraphFormat, level: DependencyLevel = 'file', includeExternal = false): string {
+	if (format === 'json') return JSON.stringify(graph, null, 2);
+
+	const nodes = level === 'file' ? Object.keys(graph.files) : Object.keys(graph.packages);
+	const getImports = (node: string) => level === 'file' ? graph.files[node].imports : graph.packages[node].imports;
+	const getExternal = (node: string) => level === 'file' ? graph.files[node].external : graph.packages[node].external;
+	// Edges within a cycle are highlighted
+	const cycleEdges = new Set<string>();
+	(level === 'file' ? graph.cycles : graph.packageCycles).forEach(cycle => {
+		for (let i = 0; i + 1 < cycle.length; i++) cycleEdges.add(`${cycle[i]}\n${cycle[i + 1]}`);
+	});
+	const externalNodes = includeExternal ? [...new Set(nodes.flatMap(getExternal))].sort() : [];
+
+	if (format === 'dot') {
+		const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+		nodes.forEach(node => lines.push(`  ${JSON.stringify(node)};`));
+		externalNodes.forEach(node => lines.push(`  ${JSON.stringify(node)} [shape=ellipse, style=dashed];`));
+		nodes.forEach(node => {
+			getImports(node).forEach(target => {
+				const attrs = cycleEdges.has(`${node}\n${target}`) ? ' [color=red]' : '';
+				lines.push(`  ${JSON.stringify(node)} -> ${JSON.stringify(target)}${attrs};`);
+			});
+			if (includeExternal) getExternal(node).forEach(target => lines.push(`  ${JSON.stringify(node)} -> ${JSON.stringify(target)} [style=dashed];`));
+		});
+		lines.push('}');
+		return lines.join('\n') + '\n';
+	}
+
+	// Mermaid
+	const ids = new Map<string, string>();
+	[...nodes, ...externalNodes].forEach((node, i) => ids.set(node, `n${i}`));
+	const label = (node: string) => node.replace(/"/g, '#quot;');
+	const lines = ['graph LR'];
+	nodes.forEach(node => lines.push(`  ${ids.get(node)}["${label(node)}"]`));
+	externalNodes.forEach(node => lines.push(`  ${ids.get(node)}(["${label(node)}"])`));
+	nodes.forEach(node => {
+		getImports(node).forEach(target => {
+			const arrow = cycleEdges.has(`${node}\n${target}`) ? '==>' : '-->';
+			lines.push(`  ${ids.get(node)} ${arrow} ${ids.get(target)}`);
+		});
+		if (includeExternal) getExternal(node).forEach(target => lines.push(`  ${ids.get(node)} -.-> ${ids.get(target)}`));
+	});
+	return lines.join('\n') + '\n';
+}
+
+// --- Find References ---
+// "Where is X used?" from the syntax trees: only identifier nodes are matched, so comments and
+// string literals never produce results. Occurrences are classified by their syntactic context.
+
+type ReferenceKind = 'definition' | 'import' | 'call' | 'member' | 'type' | 'reference';
+
+const referenceKinds: ReferenceKind[] = ['definition', 'import', 'call', 'member', 'type', 'reference'];
+
+interface Reference {
+	file: string;
+	line: number;
+	column: number; // 1-based
+	kind: ReferenceKind;
+	enclosing?: string; // Qualified name of the innermost definition containing the occurrence
+	enclosingType?: string;
+	text: string; // The source line, trimmed
+}
+
+interface ReferenceResult {
+	name: string;
+	total: number;
+	files: number;
+	references: { [kind in ReferenceKind]?: Reference[] };
+}
+
+// Leaf node types that name something in the supported grammars
+const identifierNodeTypes = [
+	'identifier', 'property_identifier', 'shorthand_property_identifier', 'shorthand_property_identifier_pattern',
+	'private_property_identifier', 'type_identifier', 'field_identifier', 'package_identifier', 'name',
+];
+
+const importNodeTypes = new Set([
+	'import_statement', 'import_from_statement', 'import_declaration', 'using_directive',
+	'namespace_use_declaration', 'use_declaration', 'import_spec',
+]);
+
+// Call nodes and the field holding the callee
+const calleeFields: { [nodeType: string]: string } = {
+	call_expression: 'function', // JS/TS, Go, Rust
+	call: 'function', // Python
+	invocation_expression: 'function', // C#
+	function_call_expression: 'function', // PHP
+	new_expression: 'constructor',
+	object_creation_expression: 'type', // C#, Java
+	method_invocation: 'name', // Java
+	member_call_expression: 'name', // PHP
+	nullsafe_member_call_expression: 'name',
+	scoped_call_expression: 'name',
+	macro_invocation: 'macro', // Rust
+};
+
+// Member access nodes and the field holding the member name
+const memberFields: { [nodeType: string]: string } = {
+	member_expression: 'property', // JS/TS
+	attribute: 'attribute', // Python
+	selector_expression: 'field', // Go
+	field_expression: 'field', // Rust
+	member_access_expression: 'name', // C#, PHP
+	nullsafe_member_access_expression: 'name',
+	field_access: 'field', // Java
+	scoped_identifier: 'name', // Rust/Java paths
+	qualified_name: 'name', // C#
+	scoped_type_identifier: 'name',
+};
+
+// Parents whose children are type references
+const typeContextNodeTypes = new Set([
+	'type', 'type_annotation', 'named_type', 'generic_type', 'generic_name', 'type_arguments', 'type_argument_list',
+	'base_list', 'extends_clause', 'implements_clause', 'class_heritage', 'superclass', 'super_interfaces',
+	'type_list', 'nullable_type', 'array_type', 'union_type', 'intersection_type', 'optional_type', 'constraint',
+]);
+
+const isSameNode = (a: Parser.SyntaxNode | null | undefined, b: Parser.SyntaxNode) =>
+	!!a && a.startIndex === b.startIndex && a.endIndex === b.endIndex;
+
+function classifyReference(node: Parser.SyntaxNode): ReferenceKind {
+	for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+		if (importNodeTypes.has(ancestor.type)) return 'import';
+		// Re-exports (`export { X } from './x'`) import the name too
+		if (ancestor.type === 'export_statement' && ancestor.childForFieldName('source')) return 'import';
+	}
+	const parent = node.parent;
+	if (!parent) return 'reference';
+	const isNameOfParent = isSameNode(parent.childForFieldName('name'), node)
+		|| (parent.type === 'field_definition' && isSameNode(parent.childForFieldName('property'), node));
+	if (isNameOfParent && /declaration|definition|declarator|_item$|_spec$|signature|parameter|^class$|^enum_member$/.test(parent.type)) {
+		return 'definition';
+	}
+
+	// A member name stands for the whole member access when checking for calls and types
+	let target: Parser.SyntaxNode = node;
+	const memberField = memberFields[parent.type];
+	const memberName = memberField
+		? parent.childForFieldName(memberField) ?? (parent.type === 'qualified_name' ? parent.lastNamedChild : null) // PHP names have no field
+		: null;
+	const isMember = isSameNode(memberName, node);
+	if (isMember) target = parent;
+	const targetParent = target.parent;
+	if (targetParent && calleeFields[targetParent.type]) {
+		// PHP `new Name()` has no field for the class name
+		const callee = targetParent.childForFieldName(calleeFields[targetParent.type])
+			?? (targetParent.type === 'object_creation_expression' ? targetParent.namedChildren.find(child => child.type !== 'arguments') : null);
+		if (isSameNode(callee, target)) return 'call';
+	}
+	if (node.type === 'type_identifier' || isTypePosition(target)) return 'type';
+	return isMember ? 'member' : 'reference';
+}
+
+function isTypePosition(node: Parser.SyntaxNode): boolean {
+	const parent = node.parent;
+	if (!parent) return false;
+	if (typeContextNodeTypes.has(parent.type)) return true;
+	return isSameNode(parent.childForFieldName('type'), node)
+		|| isSameNode(parent.childForFieldName('return_type'), node)
+		|| !!parent.childForFieldName('superclasses')?.namedChildren.some(child => isSameNode(child, node));
+}
+
+// The innermost definition around a node: the nearest ancestor naming a definition of the file,
+// falling back to line ranges for other references. A definition's own name is enclosed by its parent.
+function findEnclosingDefinition(definitions: Definition[], node: Parser.SyntaxNode, isDefinitionName: boolean): Definition | undefined {
+	const start = isDefinitionName ? node.parent?.parent : node.parent;
+	for (let ancestor = start; ancestor; ancestor = ancestor.parent) {
+		const nameText = ancestor.childForFieldName('name')?.text;
+		if (!nameText) continue;
+		const startLine = ancestor.startPosition.row + 1;
+		const endLine = ancestor.endPosition.row + 1;
+		const matches = definitions.filter(def => def.name === nameText && def.startLine <= startLine && def.endLine >= endLine && def.type !== 'error');
+		// Some grammars (e.g. Python) match the same node as both 'function' and 'method'
+		if (matches.length > 0) return matches.find(def => def.type === 'method') ?? matches[0];
+	}
+	if (isDefinitionName) return undefined; // Top-level definition
+	const line = node.startPosition.row + 1;
+	let enclosing: Definition | undefined;
+	for (const def of definitions) {
+		if (def.type === 'error' || def.startLine > line || def.endLine < line) continue;
+		if (!enclosing || def.endLine - def.startLine <= enclosing.endLine - enclosing.startLine) enclosing = def;
+	}
+	return enclosing;
+}
+
+async function findReferencesInFile(absoluteFilePath: string, relativePath: string, name: string, definitions: Definition[]): Promise<Reference[]> {
+	const fileExt = path.extname(absoluteFilePath).toLowerCase();
+	const language = languageMap[fileExt];
+	if (!language) return [];
+	const code = await fs.readFile(absoluteFilePath, "utf-8");
+	if (!code.includes(name)) return []; // Cheap pre-check before parsing
+	parser.setLanguage(language);
+	const tree = parser.parse(code);
+	const lines = code.split('\n');
+	const references: Reference[] = [];
+	for (const node of tree.rootNode.descendantsOfType(identifierNodeTypes)) {
+		if (node.text !== name) continue;
+		const kind = classifyReference(node);
+		const line = node.startPosition.row + 1;
+		const enclosing = findEnclosingDefinition(definitions, node, kind === 'definition');
+		references.push({
+			file: relativePath,
+			line,
+			column: node.startPosition.column + 1,
+			kind,
+			enclosing: enclosing ? getQualifiedName(enclosing, definitions) : undefined,
+			enclosingType: enclosing?.type,
+			text: lines[node.startPosition.row].trim().slice(0, 200),
+		});
+	}
+	return references;
+}
+
+async function findReferences(
+	directory: string,
+	name: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {},
+	kinds: ReferenceKind[] = referenceKinds
+): Promise<ReferenceResult> {
+	if (!/^[#$]?[\p{L}_$][\p{L}\p{N}_$]*$/u.test(name)) {
+		throw new Error(`Invalid name '${name}': pass a single identifier, e.g. 'render' rather than 'View.render'.`);
+	}
+	const targetDir = path.resolve(directory);
+	// Only path filters apply: definition filters would hide enclosing definitions
+	const pathFilters = { includePaths: filterOptions.includePaths, excludePaths: filterOptions.excludePaths };
+	const files = await discoverFiles(targetDir, filePatterns, pathFilters);
+	const { results } = await scanDirectory(targetDir, filePatterns, pathFilters, scanOptions);
+
+	const result: ReferenceResult = { name, total: 0, files: 0, references: {} };
+	const phpName = name.replace(/^\$/, ''); // PHP variables are `$` plus a name node
+	for (const absoluteFilePath of files.slice().sort()) {
+		const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
+		let references: Reference[];
+		try {
+			const searchName = absoluteFilePath.toLowerCase().endsWith('.php') ? phpName : name;
+			references = await findReferencesInFile(absoluteFilePath, relativePath, searchName, results[relativePath] || []);
+		} catch (error: any) {
+			console.error(`Could not search ${absoluteFilePath}: ${error.message}`);
+			continue;
+		}
+		references = references.filter(reference => kinds.includes(reference.kind));
+		if (references.length === 0) continue;
+		result.files++;
+		result.total += references.length;
+		references.forEach(reference => (result.references[reference.kind] ??= []).push(reference));
+	}
+	return result;
+}
+
+function formatReferences(result: ReferenceResult, format: 'markdown' | 'json'): string {
+	if (format === 'json') return JSON.stringify(result, null, 2);
+
+	const titles: { [kind in ReferenceKind]: string } = {
+		definition: 'Definitions',
+		import: 'Imports',
+		call: 'Calls',
+		member: 'Member accesses',
+		type: 'Type references',
+		reference: 'Other references',
+	};
+	let md = `# References to \`${result.name}\`\n\n${result.total} occurrences in ${result.files} files.\n`;
+	for (const kind of referenceKinds) {
+		const references = result.references[kind];
+		if (!references) continue;
+		md += `\n## ${titles[kind]} (${references.length})\n\n`;
+		references.forEach(reference => {
+			const enclosing = reference.enclosing ? ` in \`${reference.enclosing}\` (${reference.enclosingType})` : '';
+			md += `- \`${reference.file}:${reference.line}:${reference.column}\`${enclosing}: \`${reference.text.replace(/`/g, "'")}\`\n`;
+		});
+	}
+	return md;
+}
+
+// --- Code Metrics ---
+// Per-callable metrics from the scan results, aggregated per file, per directory (including
+// subdirectories) and for the whole project, and checked against thresholds for CI quality gates.
+
+const metricNames = ['complexity', 'cognitiveComplexity', 'nestingDepth', 'loc', 'parameters', 'halsteadVolume', 'maintainabilityIndex'] as const;
+type MetricName = typeof metricNames[number];
+
+// Metrics where low values are bad: their thresholds are lower limits and their top offenders the lowest
+const lowerLimitMetrics: MetricName[] = ['maintainabilityIndex'];
+
+// Highest (lowest for lowerLimitMetrics) allowed value per metric
+type MetricThresholds = { [metric in MetricName]?: number };
+
+interface DefinitionMetrics {
+	file: string;
+	name: string; // Qualified name, e.g. Class.method
+	type: string;
+	startLine: number;
+	endLine: number;
+	metrics: { [metric in MetricName]: number };
+}
+
+interface MetricSummary {
+	average: number;
+	median: number;
+	p90: number;
+	p95: number;
+	max: number;
+	total: number;
+}
+
+interface MetricsAggregate {
+	definitions: number;
+	metrics: { [metric in MetricName]?: MetricSummary };
+}
+
+interface ThresholdViolation {
+	file: string;
+	name: string;
+	type: string;
+	startLine: number;
+	metric: MetricName;
+	value: number;
+	threshold: number;
+}
+
+interface MetricsReport {
+	directory: string;
+	passed: boolean; // No threshold exceeded
+	thresholds: MetricThresholds;
+	summary: MetricsAggregate;
+	directories: { [directory: string]: MetricsAggregate };
+	files: { [file: string]: MetricsAggregate };
+	topOffenders: { [metric in MetricName]?: DefinitionMetrics[] };
+	violations: ThresholdViolation[];
+	definitions: DefinitionMetrics[];
+}
+
+const DEFAULT_TOP_OFFENDERS = 10;
+
+// Reads `metric=value` pairs as given on the command line
+function parseThresholdArguments(values: string[]): Record<string, unknown> {
+	const thresholds: Record<string, unknown> = {};
+	for (const value of values.flatMap(v => v.split(','))) {
+		const match = value.match(/^\s*([\w-]+)\s*=\s*(.+?)\s*$/);
+		if (!match) throw new Error(`Invalid threshold '${value}': expected <metric>=<value>, e.g. complexity=10.`);
+		thresholds[match[1]] = Number(match[2]);
+	}
+	return thresholds;
+}
+
+// Nearest-rank percentile of ascending values
+function getPercentile(sortedValues: number[], percentile: number): number {
+	return sortedValues[Math.max(0, Math.ceil((percentile / 100) * sortedValues.length) - 1)];
+}
+
+function summariseMetrics(definitions: DefinitionMetrics[]): MetricsAggregate {
+	const aggregate: MetricsAggregate = { definitions: definitions.length, metrics: {} };
+	if (definitions.length === 0) return aggregate;
+	for (const metric of metricNames) {
+		const values = definitions.map(def => def.metrics[metric]).sort((a, b) => a - b);
+		const total = values.reduce((sum, value) => sum + value, 0);
+		aggregate.metrics[metric] = {
+			average: Math.round((total / values.length) * 100) / 100,
+			median: getPercentile(values, 50),
+			p90: getPercentile(values, 90),
+			p95: getPercentile(values, 95),
+			max: values[values.length - 1],
+			total,
+		};
+	}
+	return aggregate;
+}
+
+// Python functions are matched by both the function and the method query: keeps each node once,
+// as a method inside classes and as a function elsewhere
+function getUniqueDefinitions(definitions: Definition[]): Definition[] {
+	const unique = new Map<string, Definition>();
+	for (const def of definitions) {
+		const key = `${callableTypes.includes(def.type) ? 'callable' : def.type}:${def.startLine}:${def.endLine}:${def.name}`;
+		if (!unique.has(key) || def.type === (def.parentId ? 'method' : 'function')) unique.set(key, def);
+	}
+	return Array.from(unique.values());
+}
+
+function getDefinitionMetrics(results: { [relativePath: string]: Definition[] }): DefinitionMetrics[] {
+	const metrics: DefinitionMetrics[] = [];
+	for (const file of Object.keys(results).sort()) {
+		const definitions = results[file];
+		for (const def of getUniqueDefinitions(definitions.filter(d => callableTypes.includes(d.type)))) {
+			metrics.push({
+				file,
+				name: getQualifiedName(def, definitions),
+				type: def.type,
+				startLine: def.startLine,
+				endLine: def.endLine,
+				metrics: {
+					complexity: def.complexity ?? 1,
+					cognitiveComplexity: def.cognitiveComplexity ?? 0,
+					nestingDepth: def.nestingDepth ?? 0,
+					loc: def.loc ?? def.endLine - def.startLine + 1,
+					parameters: def.parameterCount ?? def.parameters?.length ?? 0,
+					halsteadVolume: def.halsteadVolume ?? 0,
+					maintainabilityIndex: def.maintainabilityIndex ?? 100,
+				},
+			});
+		}
+	}
+	return metrics;
+}
+
+function buildMetricsReport(
+	directory: string,
+	definitionMetrics: DefinitionMetrics[],
+	thresholds: MetricThresholds = {},
+	top = DEFAULT_TOP_OFFENDERS
+): MetricsReport {
+	const byFile = new Map<string, DefinitionMetrics[]>();
+	const byDirectory = new Map<string, DefinitionMetrics[]>();
+	for (const def of definitionMetrics) {
+		if (!byFile.has(def.file)) byFile.set(def.file, []);
+		byFile.get(def.file)!.push(def);
+		// Every enclosing directory below the scanned one
+		for (let dir = path.posix.dirname(def.file); dir !== '.'; dir = path.posix.dirname(dir)) {
+			if (!byDirectory.has(dir)) byDirectory.set(dir, []);
+			byDirectory.get(dir)!.push(def);
+		}
+	}
+
+	const violations: ThresholdViolation[] = [];
+	for (const def of definitionMetrics) {
+		for (const metric of metricNames) {
+			const threshold = thresholds[metric];
+			const value = def.metrics[metric];
+			if (threshold !== undefined && (lowerLimitMetrics.includes(metric) ? value < threshold : value > threshold)) {
+				violations.push({ file: def.file, name: def.name, type: def.type, startLine: def.startLine, metric, value, threshold });
+			}
+		}
+	}
+
+	const topOffenders: MetricsReport['topOffenders'] = {};
+	for (const metric of metricNames) {
+		const direction = lowerLimitMetrics.includes(metric) ? -1 : 1;
+		topOffenders[metric] = definitionMetrics
+			.slice()
+			.sort((a, b) => direction * (b.metrics[metric] - a.metrics[metric]) || a.file.localeCompare(b.file) || a.startLine - b.startLine)
+			.slice(0, top);
+	}
+
+	const summarise = (groups: Map<string, DefinitionMetrics[]>) =>
+		Object.fromEntries(Array.from(groups.keys()).sort().map(key => [key, summariseMetrics(groups.get(key)!)]));
+	return {
+		directory,
+		passed: violations.length === 0,
+		thresholds,
+		summary: summariseMetrics(definitionMetrics),
+		directories: summarise(byDirectory),
+		files: summarise(byFile),
+		topOffenders,
+		violations,
+		definitions: definitionMetrics,
+	};
+}
+
+// Metrics of the functions and methods left after filtering
+// Thresholds gate merges, so definition filters (names, modifiers, metric ranges, exportedOnly) from the
+// config file must not hide offending functions: only the file and type scoping applies.
+function getScopingFilters(filterOptions: FilterOptions): FilterOptions {
+	const { includeTypes, excludeTypes, includePaths, excludePaths, sinceRef } = filterOptions;
+	return { includeTypes, excludeTypes, includePaths, excludePaths, sinceRef };
+}
+
+async function getCodeMetrics(
+	directory: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {},
+	thresholds: MetricThresholds = {},
+	top = DEFAULT_TOP_OFFENDERS
+): Promise<MetricsReport> {
+	const { targetDir, results } = await scanDirectory(directory, filePatterns, getScopingFilters(filterOptions), scanOptions);
+	return buildMetricsReport(targetDir, getDefinitionMetrics(results), thresholds, top);
+}
+
+function formatMetricsReport(report: MetricsReport, format: 'markdown' | 'json'): string {
+	if (format === 'json') return JSON.stringify(report, null, 2);
+
+	const fileCount = Object.keys(report.files).length;
+	let md = `# Code Metrics for ${report.directory}\n\n${report.summary.definitions} functions/methods in ${fileCount} files.\n`;
+
+	md += `\n| Metric | Average | Median | P90 | P95 | Max | Total |\n| --- | --- | --- | --- | --- | --- | --- |\n`;
+	for (const metric of metricNames) {
+		const summary = report.summary.metrics[metric];
+		if (summary) md += `| ${metric} | ${summary.average} | ${summary.median} | ${summary.p90} | ${summary.p95} | ${summary.max} | ${summary.total} |\n`;
+	}
+
+	const thresholdText = metricNames
+		.filter(metric => report.thresholds[metric] !== undefined)
+		.map(metric => `${metric} ${lowerLimitMetrics.includes(metric) ? '≥' : '≤'} ${report.thresholds[metric]}`)
+		.join(', ');
+	if (thresholdText) {
+		md += `\n## Thresholds: ${report.passed ? 'passed' : `${report.violations.length} violation${report.violations.length === 1 ? '' : 's'}`}\n\n${thresholdText}\n`;
+		if (report.violations.length > 0) md += '\n';
+		report.violations.forEach(violation => {
+			const comparison = lowerLimitMetrics.includes(violation.metric) ? '<' : '>';
+			md += `- \`${violation.file}:${violation.startLine}\` \`${violation.name}\` (${violation.type}): ${violation.metric} ${violation.value} ${comparison} ${violation.threshold}\n`;
+		});
+	}
+
+	md += `\n## Top Offenders\n`;
+	for (const metric of metricNames) {
+		const offenders = report.topOffenders[metric];
+		if (!offenders || offenders.length === 0) continue;
+		md += `\n### ${metric}\n\n`;
+		offenders.forEach((def, i) => { md += `${i + 1}. \`${def.file}:${def.startLine}\` \`${def.name}\`: ${def.metrics[metric]}\n`; });
+	}
+
+	const table = (title: string, column: string, groups: { [key: string]: MetricsAggregate }) => {
+		const keys = Object.keys(groups);
+		if (keys.length === 0) return '';
+		let text = `\n## ${title}\n\n| ${column} | Definitions | ${metricNames.map(metric => `Avg ${metric} | Max ${metric}`).join(' | ')} |\n`;
+		text += `| --- | --- | ${metricNames.map(() => '--- | ---').join(' | ')} |\n`;
+		keys.forEach(key => {
+			const aggregate = groups[key];
+			text += `| \`${key}\` | ${aggregate.definitions} | ${metricNames.map(metric => `${aggregate.metrics[metric]?.average ?? '-'} | ${aggregate.metrics[metric]?.max ?? '-'}`).join(' | ')} |\n`;
+		});
+		return text;
+	};
+	md += table('Directories', 'Directory', report.directories);
+	md += table('Files', 'File', report.files);
+	return md;
+}
+
+// --- SARIF Output ---
+// Findings as a SARIF 2.1.0 log for code scanning dashboards: metric threshold violations, syntax errors
+// (ERROR and MISSING nodes of the syntax tree) and definitions matching the configured forbidden patterns.
+// Rule IDs stay the same between runs (syntax-error, metric/<metric>, forbidden/<id>).
+
+const SCANNER_VERSION = "0.1.1";
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+// Definitions a project doesn't allow, e.g. { "id": "no-sync-io", "namePattern": "Sync$", "includeTypes": ["function"] }
+interface ForbiddenPattern extends Pick<FilterOptions, typeof forbiddenPatternFilterKeys[number]> {
+	id: string; // Rule ID suffix: forbidden/<id>
+	message?: string; // Explains the rule, shown with every finding
+	level?: SarifLevel; // Default: warning
+	paths?: string[]; // Glob patterns (relative to the scanned directory) of the files the rule applies to
+}
+
+// Definition filters that can describe a forbidden pattern
+const forbiddenPatternFilterKeys = [
+	'includeTypes', 'excludeTypes', 'includeModifiers', 'excludeModifiers', 'hasAnnotation', 'namePattern', 'excludeNamePattern',
+	'minComplexity', 'maxComplexity', 'minParameters', 'maxParameters',
+] as const;
+
+interface SarifRegion {
+	startLine: number;
+	startColumn?: number;
+	endLine?: number;
+	endColumn?: number;
+}
+
+interface SarifRule {
+	id: string;
+	name: string;
+	shortDescription: { text: string };
+	defaultConfiguration: { level: SarifLevel };
+}
+
+interface SarifResult {
+	ruleId: string;
+	ruleIndex: number;
+	level: SarifLevel;
+	message: { text: string };
+	locations: {
+		physicalLocation: { artifactLocation: { uri: string; uriBaseId: string }; region?: SarifRegion };
+		logicalLocations?: { fullyQualifiedName: string; kind: string }[];
+	}[];
+	partialFingerprints: { [name: string]: string };
+	properties?: { [name: string]: unknown };
+}
+
+interface SarifLog {
+	$schema: string;
+	version: '2.1.0';
+	runs: {
+		tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+		originalUriBaseIds: { [id: string]: { uri: string } };
+		columnKind: 'utf16CodeUnits';
+		results: SarifResult[];
+	}[];
+}
+
+// Returns why a forbiddenPatterns setting is invalid, or undefined if it is valid
+function checkForbiddenPatterns(value: unknown): string | undefined {
+	if (!Array.isArray(value)) return 'must be an array of pattern objects';
+	const allowedKeys = ['id', 'message', 'level', 'paths', ...forbiddenPatternFilterKeys];
+	const ids = new Set<string>();
+	const problems = value.map((pattern, index) => {
+		if (!pattern || typeof pattern !== 'object' || Array.isArray(pattern)) return `has an invalid entry ${index} (must be an object)`;
+		if (typeof pattern.id !== 'string' || !/^[\w.-]+$/.test(pattern.id)) return `has an invalid id in entry ${index} (must be a string of letters, digits, '_', '.' or '-')`;
+		if (ids.has(pattern.id)) return `has a duplicate id "${pattern.id}"`;
+		ids.add(pattern.id);
+		const keyProblems = Object.entries(pattern).map(([key, setting]) => {
+			if (!allowedKeys.includes(key)) return `"${key}" is unknown (allowed: ${allowedKeys.join(', ')})`;
+			if (key === 'id') return undefined;
+			const type: SettingType = key === 'message' ? 'string' : key === 'level' ? ['error', 'warning', 'note'] : key === 'paths' ? 'string[]' : scanSettingsSchema[key as keyof ScanSettings];
+			const problem = checkSettingValue(setting, type);
+			return problem ? `"${key}" ${problem}` : undefined;
+		}).filter(Boolean);
+		return keyProblems.length > 0 ? `has problems in pattern "${pattern.id}": ${keyProblems.join(', ')}` : undefined;
+	}).filter(Boolean);
+	return problems.length > 0 ? problems.join(', ') : undefined;
+}
+
+// SARIF logical location kind of a definition type
+function getSarifLocationKind(type: string): string {
+	if (['class', 'interface', 'struct', 'enum', 'trait', 'impl', 'record'].includes(type)) return 'type';
+	if (type === 'method') return 'member';
+	if (type === 'function' || type === 'mixin') return 'function';
+	if (type === 'variable' || type === 'property') return type;
+	if (['namespace', 'package', 'module'].includes(type)) return 'namespace';
+	return 'declaration';
+}
+
+// Fingerprints don't include line numbers, so findings keep their identity when code above them moves
+function getSarifFingerprint(...parts: string[]): { [name: string]: string } {
+	return { "codeScanner/v1": crypto.createHash("sha1").update(parts.join('\0')).digest("hex") };
+}
+
+function getDefinitionSarifLocation(file: string, def: { name: string; type: string; startLine: number; endLine: number }): SarifResult['locations'][number] {
+	return {
+		physicalLocation: {
+			artifactLocation: { uri: encodeURI(file), uriBaseId: 'SRCROOT' },
+			region: { startLine: def.startLine, endLine: def.endLine },
+		},
+		logicalLocations: [{ fullyQualifiedName: def.name, kind: getSarifLocationKind(def.type) }],
+	};
+}
+
+async function getSarifLog(
+	directory: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {},
+	thresholds: MetricThresholds = {},
+	forbiddenPatterns: ForbiddenPattern[] = []
+): Promise<SarifLog> {
+	const { targetDir, results, syntaxErrors } = await scanDirectory(directory, filePatterns, getScopingFilters(filterOptions), scanOptions);
+
+	const rules: SarifRule[] = [{
+		id: 'syntax-error',
+		name: 'SyntaxError',
+		shortDescription: { text: 'The file does not parse: its syntax tree has error or missing nodes.' },
+		defaultConfiguration: { level: 'error' },
+	}];
+	for (const metric of metricNames.filter(metric => thresholds[metric] !== undefined)) {
+		const limit = lowerLimitMetrics.includes(metric) ? 'at least' : 'at most';
+		rules.push({
+			id: `metric/${metric}`,
+			name: `Metric${metric[0].toUpperCase()}${metric.slice(1)}`,
+			shortDescription: { text: `Functions and methods must have a ${metric} of ${limit} ${thresholds[metric]}.` },
+			defaultConfiguration: { level: 'error' },
+		});
+	}
+	for (const pattern of forbiddenPatterns) {
+		rules.push({
+			id: `forbidden/${pattern.id}`,
+			name: `Forbidden${pattern.id.replace(/(^|[\W_]+)(\w)/g, (_, __, letter: string) => letter.toUpperCase())}`,
+			shortDescription: { text: pattern.message || `Definitions matching the forbidden pattern "${pattern.id}".` },
+			defaultConfiguration: { level: pattern.level || 'warning' },
+		});
+	}
+	const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
+	const sarifResults: SarifResult[] = [];
+	const addResult = (ruleId: string, message: string, location: SarifResult['locations'][number], fingerprint: string[], properties?: SarifResult['properties']) => {
+		const ruleIndex = ruleIndexes.get(ruleId)!;
+		sarifResults.push({
+			ruleId,
+			ruleIndex,
+			level: rules[ruleIndex].defaultConfiguration.level,
+			message: { text: message },
+			locations: [location],
+			partialFingerprints: getSarifFingerprint(ruleId, ...fingerprint),
+			properties,
+		});
+	};
+
+	for (const file of Object.keys(syntaxErrors)) {
+		for (const error of syntaxErrors[file]) {
+			addResult('syntax-error', error.message, {
+				physicalLocation: { artifactLocation: { uri: encodeURI(file), uriBaseId: 'SRCROOT' }, region: error.region },
+			}, [file, error.text]);
+		}
+	}
+
+	const definitionMetrics = getDefinitionMetrics(results);
+	for (const violation of buildMetricsReport(targetDir, definitionMetrics, thresholds, 0).violations) {
+		const def = definitionMetrics.find(d => d.file === violation.file && d.name === violation.name && d.startLine === violation.startLine)!;
+		const comparison = lowerLimitMetrics.includes(violation.metric) ? 'below the minimum' : 'above the maximum';
+		addResult(
+			`metric/${violation.metric}`,
+			`\`${violation.name}\` has a ${violation.metric} of ${violation.value}, ${comparison} of ${violation.threshold}.`,
+			getDefinitionSarifLocation(violation.file, def),
+			[violation.file, violation.name],
+			{ value: violation.value, threshold: violation.threshold }
+		);
+	}
+
+	for (const pattern of forbiddenPatterns) {
+		const ruleId = `forbidden/${pattern.id}`;
+		for (const file of Object.keys(results).sort()) {
+			if (pattern.paths && !pattern.paths.some(glob => minimatch(file, glob, { dot: true }))) continue;
+			const definitions = results[file];
+			const matches = definitions.filter(def => def.type !== 'error' && def.type !== 'metadata' && matchesDefinitionFilters(def, pattern));
+			for (const def of getUniqueDefinitions(matches)) {
+				const name = getQualifiedName(def, definitions);
+				addResult(
+					ruleId,
+					`\`${name}\` (${def.type}) matches the forbidden pattern "${pattern.id}"${pattern.message ? `: ${pattern.message}` : '.'}`,
+					getDefinitionSarifLocation(file, { ...def, name }),
+					[file, name, def.type]
+				);
+			}
+		}
+	}
+
+	return {
+		$schema: SARIF_SCHEMA,
+		version: '2.1.0',
+		runs: [{
+			tool: { driver: { name: "code-scanner", version: SCANNER_VERSION, rules } },
+			originalUriBaseIds: { SRCROOT: { uri: pathToFileURL(targetDir + path.sep).href } },
+			columnKind: 'utf16CodeUnits',
+			results: sarifResults,
+		}],
+	};
+}
+
+// --- Tags Files ---
+// ctags (Universal Ctags extended format) and etags (Emacs TAGS) output built from the definition tree,
+// so Vim and Emacs can jump to definitions. A tags file can be updated for changed files only: files
+// modified after it was written (or missing from it) are re-scanned, entries of deleted files are dropped.
+
+type TagsFormat = 'ctags' | 'etags';
+
+interface TagEntry {
+	name: string;
+	file: string; // Relative to the tags file's directory
+	kind: string; // Definition type
+	line: number;
+	endLine: number;
+	scope?: { kind: string; name: string }; // Enclosing definition with its qualified name, e.g. class Shape
+	lineText: string; // Source line the definition starts on
+	lineOffset: number; // Byte offset of that line in the file (etags)
+}
+
+const ctagsHeader = [
+	`!_TAG_FILE_FORMAT\t2\t/extended format; --format=1 will not append ;" to lines/`,
+	`!_TAG_FILE_SORTED\t1\t/0=unsorted, 1=sorted, 2=foldcase/`,
+	`!_TAG_OUTPUT_MODE\tu-ctags\t/u-ctags or e-ctags/`,
+	`!_TAG_PROGRAM_NAME\tcode-scanner\t//`,
+	`!_TAG_PROGRAM_VERSION\t${SCANNER_VERSION}\t//`,
+];
+
+async function getTagEntries(targetDir: string, results: { [relativePath: string]: Definition[] }, tagsDir: string): Promise<TagEntry[]> {
+	const entries: TagEntry[] = [];
+	for (const file of Object.keys(results).sort()) {
+		let code: string;
+		try {
+			code = await fs.readFile(path.join(targetDir, file), "utf-8");
+		} catch (error: any) {
+			console.warn(`Warning: Skipping tags of ${file}: ${error.message}`);
+			continue;
+		}
+		const lines = code.split('\n');
+		const lineOffsets: number[] = [];
+		let offset = 0;
+		for (const line of lines) {
+			lineOffsets.push(offset);
+			offset += Buffer.byteLength(line) + 1;
+		}
+		const tagFile = path.relative(tagsDir, path.join(targetDir, file)).replace(/\\/g, '/');
+		const definitions = results[file];
+		for (const def of getUniqueDefinitions(definitions.filter(d => d.type !== 'error' && d.type !== 'metadata'))) {
+			const parent = def.parentId ? definitions.find(d => d.id === def.parentId) : undefined;
+			entries.push({
+				name: def.name.replace(/\s+/g, ' '), // Tabs and line breaks would break the tags line
+				file: tagFile,
+				kind: def.type,
+				line: def.startLine,
+				endLine: def.endLine,
+				scope: parent ? { kind: parent.type, name: getQualifiedName(parent, definitions).replace(/\s+/g, ' ') } : undefined,
+				lineText: (lines[def.startLine - 1] ?? '').replace(/\r$/, ''),
+				lineOffset: lineOffsets[def.startLine - 1] ?? 0,
+			});
+		}
+	}
+	return entries;
+}
+
+// name<TAB>file<TAB>/^line$/;"<TAB>kind:method<TAB>line:12<TAB>class:Shape<TAB>end:20
+function formatCtagsLine(entry: TagEntry): string {
+	const pattern = entry.lineText.replace(/\\/g, '\\\\').replace(/\//g, '\\/');
+	const fields = [`kind:${entry.kind}`, `line:${entry.line}`];
+	if (entry.scope) fields.push(`${entry.scope.kind}:${entry.scope.name}`);
+	fields.push(`end:${entry.endLine}`);
+	return `${entry.name}\t${entry.file}\t/^${pattern}$/;"\t${fields.join('\t')}`;
+}
+
+// Sorted by tag name (then file and line), as editors binary-search the file
+function formatCtags(lines: string[]): string {
+	return [...ctagsHeader, ...lines.slice().sort()].join('\n') + '\n';
+}
+
+// \f\nfile,size\n followed by one "text up to the name\x7fname\x01line,offset" line per tag
+function formatEtagsSection(file: string, entries: TagEntry[]): string {
+	const body = entries.map(entry => {
+		// The name as a whole word, not as part of a keyword or another identifier
+		const match = new RegExp(`(^|[^\\w$])${escapeRegExp(entry.name)}(?![\\w$])`).exec(entry.lineText);
+		const text = match ? entry.lineText.slice(0, match.index + match[0].length) : entry.lineText;
+		return `${text}\x7f${entry.name}\x01${entry.line},${entry.lineOffset}\n`;
+	}).join('');
+	return `\x0c\n${file},${Buffer.byteLength(body)}\n${body}`;
+}
+
+// Per-file chunks of a tags file: ctags lines or etags sections
+function formatTagChunks(entries: TagEntry[], format: TagsFormat): Map<string, string[]> {
+	const chunks = new Map<string, string[]>();
+	const byFile = new Map<string, TagEntry[]>();
+	entries.forEach(entry => byFile.set(entry.file, [...(byFile.get(entry.file) || []), entry]));
+	byFile.forEach((fileEntries, file) => {
+		chunks.set(file, format === 'ctags' ? fileEntries.map(formatCtagsLine) : [formatEtagsSection(file, fileEntries)]);
+	});
+	return chunks;
+}
+
+function joinTagChunks(chunks: Map<string, string[]>, format: TagsFormat): string {
+	const files = Array.from(chunks.keys()).sort();
+	if (format === 'ctags') return formatCtags(files.flatMap(file => chunks.get(file)!));
+	return files.map(file => chunks.get(file)!.join('')).join('');
+}
+
+// Reads the per-file chunks of an existing tags file
+function parseTagChunks(content: string, format: TagsFormat, tagsPath: string): Map<string, string[]> {
+	const chunks = new Map<string, string[]>();
+	if (content === '') return chunks;
+	if (format === 'ctags') {
+		if (!content.startsWith('!_TAG_')) throw new Error(`${tagsPath} is not a ctags file.`);
+		for (const line of content.split('\n')) {
+			if (line === '' || line.startsWith('!_')) continue;
+			const file = line.split('\t')[1];
+			if (file !== undefined) chunks.set(file, [...(chunks.get(file) || []), line]);
+		}
+	} else {
+		if (!content.startsWith('\x0c\n')) throw new Error(`${tagsPath} is not an etags file.`);
+		for (const section of content.split('\x0c\n').slice(1)) {
+			const header = section.slice(0, section.indexOf('\n'));
+			chunks.set(header.slice(0, header.lastIndexOf(',')), [`\x0c\n${section}`]);
+		}
+	}
+	return chunks;
+}
+
+// Tags of the definitions left after filtering, with paths relative to the scanned directory
+async function getTags(
+	directory: string,
+	filePatterns: string[],
+	format: TagsFormat,
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {}
+): Promise<string> {
+	const { targetDir, results } = await scanDirectory(directory, filePatterns, filterOptions, scanOptions);
+	return joinTagChunks(formatTagChunks(await getTagEntries(targetDir, results, targetDir), format), format);
+}
+
+// Writes a tags file with paths relative to its own directory. With update, only files changed since the
+// file was written are re-scanned; entries of other directories' files are kept.
+async function writeTagsFile(
+	directory: string,
+	filePatterns: string[],
+	format: TagsFormat,
+	tagsFile: string,
+	update: boolean,
+	filterOptions: FilterOptions = {},
+	scanOptions: ScanOptions = {}
+): Promise<string> {
+	const targetDir = path.resolve(process.cwd(), directory);
+	const tagsPath = path.resolve(process.cwd(), tagsFile);
+	const tagsDir = path.dirname(tagsPath);
+	const toTagFile = (absoluteFilePath: string) => path.relative(tagsDir, absoluteFilePath).replace(/\\/g, '/');
+
+	let chunks = new Map<string, string[]>();
+	let changedFileCount = 0;
+	let removedFiles = 0;
+	let existing: { content: string; mtimeMs: number } | undefined;
+	if (update) {
+		try {
+			existing = { content: await fs.readFile(tagsPath, "utf-8"), mtimeMs: (await fs.stat(tagsPath)).mtimeMs };
+		} catch (error: any) {
+			if (error.code !== 'ENOENT') throw new Error(`Could not read tags file ${tagsPath}: ${error.message}`);
+			console.error(`Tags file ${tagsPath} doesn't exist yet, writing it from scratch.`);
+		}
+	}
+	if (existing) {
+		chunks = parseTagChunks(existing.content, format, tagsPath);
+		const discoveredFiles = await discoverFiles(targetDir, filePatterns, filterOptions);
+		const discoveredTagFiles = new Set(discoveredFiles.map(toTagFile));
+		const changedFiles = new Set<string>();
+		for (const absoluteFilePath of discoveredFiles) {
+			const tagFile = toTagFile(absoluteFilePath);
+			if (!chunks.has(tagFile) || (await fs.stat(absoluteFilePath)).mtimeMs > existing.mtimeMs) changedFiles.add(absoluteFilePath);
+		}
+		// Drop changed files (re-added below) and deleted or no longer included files of the scanned directory
+		for (const tagFile of Array.from(chunks.keys())) {
+			const absoluteFilePath = path.resolve(tagsDir, tagFile);
+			const relativeToTarget = path.relative(targetDir, absoluteFilePath);
+			const inTargetDir = relativeToTarget !== '..' && !relativeToTarget.startsWith(`..${path.sep}`) && !path.isAbsolute(relativeToTarget);
+			if (changedFiles.has(absoluteFilePath) || (inTargetDir && !discoveredTagFiles.has(tagFile))) {
+				if (!changedFiles.has(absoluteFilePath)) removedFiles++;
+				chunks.delete(tagFile);
+			}
+		}
+		changedFileCount = changedFiles.size;
+		console.error(`Updating tags of ${changedFileCount} changed files, removing ${removedFiles} files.`);
+		scanOptions = { ...scanOptions, onlyFiles: changedFiles };
+	}
+
+	const { results } = await scanDirectory(targetDir, filePatterns, filterOptions, scanOptions);
+	const entries = await getTagEntries(targetDir, results, tagsDir);
+	formatTagChunks(entries, format).forEach((fileChunks, file) => chunks.set(file, fileChunks));
+
+	await fs.mkdir(tagsDir, { recursive: true });
+	// Write to a temporary file first so editors never read a half-written tags file
+	const tempPath = `${tagsPath}.${process.pid}.tmp`;
+	await fs.writeFile(tempPath, joinTagChunks(chunks, format));
+	await fs.rename(tempPath, tagsPath);
+
+	const updated = existing ? ` (${changedFileCount} changed files re-scanned, ${removedFiles} removed)` : '';
+	return `Wrote ${format} tags of ${chunks.size} files to ${tagsPath}${updated}.`;
+}
+
+// --- Definition Source Reading ---
+// Returns the source text of a single definition so clients don't need a separate file read.
+
+interface ReadDefinitionOptions {
+	contextLines?: number; // Extra lines to include before and after the definition
+	maxBodyLines?: number; // Cut the definition off after this many lines
+	excludePaths?: string[];
+}
+
+async function readDefinition(
+	directory: string,
+	file: string,
+	symbol: string,
+	outputFormat: 'markdown' | 'json' = 'markdown',
+	options: ReadDefinitionOptions = {}
+): Promise<string> {
+	const targetDir = path.resolve(process.cwd(), directory);
+	const absoluteFilePath = path.resolve(targetDir, file);
+	const relativePath = path.relative(targetDir, absoluteFilePath).replace(/\\/g, '/');
+	if (relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+		throw new Error(`File is outside the scanned directory: ${file}`);
+	}
+
+	// Apply the same ignore files and excludePaths rules as performScan
+	const exclusion = explainExclusion(await getIgnoreMatcher(targetDir), relativePath, options.excludePaths || []);
+	if (exclusion) {
+		throw new Error(`File is excluded by ${describeIgnoreRule(exclusion)}: ${relativePath}`);
+	}
+
+	let content: string;
+	try {
+		content = await fs.readFile(absoluteFilePath, "utf-8");
+	} catch (error: any) {
+		throw new Error(`Could not read file ${relativePath}: ${error.message}`);
+	}
+	const definitions = parseCodeWithTreeSitter(content, absoluteFilePath, await loadQuerySet(targetDir));
+	const parseError = definitions.find(def => def.type === 'error');
+	if (parseError) {
+		throw new Error(`${parseError.name}: ${relativePath}`);
+	}
+
+	// Match by definition id, name or qualified name, skipping duplicate matches of the same node
+	const seenLocations = new Set<string>();
+	const matches = definitions.filter(def => {
+		const qualifiedName = getQualifiedName(def, definitions);
+		if (def.id !== symbol && def.name !== symbol && qualifiedName !== symbol) return false;
+		const locationKey = `${def.startLine}:${def.endLine}:${def.name}`;
+		if (seenLocations.has(locationKey)) return false;
+		seenLocations.add(locationKey);
+		return true;
+	});
+	if (matches.length === 0) {
+		throw new Error(`No definition matching '${symbol}' found in ${relativePath}.`);
+	}
+
+	const lines = content.split('\n');
+	const contextLines = Math.max(0, options.contextLines || 0);
+	const extracted = matches.map(def => {
+		const fromLine = Math.max(1, def.startLine - contextLines);
+		const toLine = Math.min(lines.length, def.endLine + contextLines);
+		let sourceLines = lines.slice(fromLine - 1, toLine);
+		let omittedLines = 0;
+		// Truncation counts from the definition's first line, context before it is always kept
+		if (options.maxBodyLines !== undefined && def.endLine - def.startLine + 1 > options.maxBodyLines) {
+			const keep = (def.startLine - fromLine) + Math.max(1, options.maxBodyLines);
+			omittedLines = sourceLines.length - keep;
+			sourceLines = sourceLines.slice(0, keep);
+		}
+		return {
+			id: def.id,
+			type: def.type,
+			name: def.name,
+			qualifiedName: getQualifiedName(def, definitions),
+			file: relativePath,
+			startLine: def.startLine,
+			endLine: def.endLine,
+			sourceStartLine: fromLine,
+			sourceEndLine: fromLine + sourceLines.length - 1,
+			truncated: omittedLines > 0,
+			omittedLines,
+			source: sourceLines.join('\n'),
+		};
+	});
+
+	if (outputFormat === 'json') {
+		return JSON.stringify(extracted, null, 2);
+	}
+
+	const fenceLanguage = path.extname(absoluteFilePath).slice(1).toLowerCase();
+	return extracted.map(def => {
+		let md = `## ${def.type.toUpperCase()}: \`${def.qualifiedName}\` (\`${def.file}\`, Lines: ${def.startLine}-${def.endLine}, id: \`${def.id}\`)\n\n`;
+		if (def.sourceStartLine !== def.startLine || def.sourceEndLine !== def.endLine) {
+			md += `Showing lines ${def.sourceStartLine}-${def.sourceEndLine}.\n\n`;
+		}
+		md += `\`\`\`${fenceLanguage}\n${def.source}\n\`\`\`\n`;
+		if (def.truncated) {
+			md += `\n*(${def.omittedLines} more lines omitted)*\n`;
+		}
+		return md;
+	}).join('\n');
+}
+
+// --- API Diff ---
+// Compares the public definitions of two scans (git refs checked out into temporary worktrees, or
+// saved JSON output of formatResultsJSON) by qualified name and classifies changes as breaking or not.
+
+interface ApiEntry {
+	qualifiedName: string;
+	type: string;
+	file: string;
+	modifiers?: string[];
+	parameters?: Parameter[];
+	returnType?: string;
+	dataType?: string;
+}
+
+interface ApiSnapshot {
+	label: string; // Git ref or JSON file the snapshot was taken from
+	entries: ApiEntry[];
+	detailed: boolean; // Has parameters/return types; saved scans below 'detailed' level don't
+}
+
+interface ApiChange {
+	kind: 'added' | 'removed' | 'changed';
+	qualifiedName: string;
+	type: string;
+	file: string;
+	breaking: boolean;
+	details: string[];
+}
+
+interface ApiDiff {
+	base: string;
+	head: string;
+	summary: { added: number; removed: number; changed: number; breaking: number };
+	changes: ApiChange[];
+}
+
+// Adding any of these to a definition breaks existing callers or subclasses
+const restrictingModifiers = ['private', 'protected', 'internal', 'abstract', 'final', 'sealed', 'readonly', 'const'];
+// Removing any of these hides the definition from existing users or changes how it is imported
+const exposingModifiers = ['export', 'default', 'public', 'pub'];
+
+function getModifierWords(entry: ApiEntry): string[] {
+	return entry.modifiers || [];
+}
+
+// Saved scans list `modifiers`; older ones have a space-joined `modifier` string
+function getSavedModifiers(obj: any): string[] | undefined {
+	if (Array.isArray(obj.modifiers)) return obj.modifiers.filter((word: unknown) => typeof word === 'string');
+	return typeof obj.modifier === 'string' ? splitModifierText(obj.modifier) : undefined;
+}
+
+// Private members and locals of functions aren't part of the API
+function isApiDefinition(def: Definition, parent: Definition | undefined): boolean {
+	if (def.type === 'error' || def.type === 'call') return false;
+	if (parent && callableTypes.includes(parent.type)) return false;
+	return !(def.modifiers || []).includes('private') && !def.name.startsWith('#');
+}
+
+function getApiEntriesFromResults(results: { [relativePath: string]: Definition[] }): ApiEntry[] {
+	const entries: ApiEntry[] = [];
+	for (const file in results) {
+		const definitions = results[file];
+		for (const def of definitions) {
+			const parent = def.parentId ? definitions.find(d => d.id === def.parentId) : undefined;
+			if (!isApiDefinition(def, parent)) continue;
+			entries.push({
+				qualifiedName: getQualifiedName(def, definitions),
+				type: def.type,
+				file,
+				modifiers: def.modifiers,
+				parameters: def.parameters || [],
+				returnType: def.returnType,
+				dataType: def.dataType,
+			});
+		}
+	}
+	return entries;
+}
+
+// Reads a saved formatResultsJSON output, rebuilding qualified names from the nesting
+async function loadApiSnapshotFromJson(jsonPath: string): Promise<ApiSnapshot> {
+	let saved: any;
+	try {
+		saved = JSON.parse(await fs.readFile(jsonPath, "utf-8"));
+	} catch (error: any) {
+		throw new Error(`Could not read saved scan ${jsonPath}: ${error.message}`);
+	}
+	if (!saved || typeof saved !== 'object' || Array.isArray(saved)) {
+		throw new Error(`Invalid saved scan ${jsonPath}: expected the JSON output of a scan (an object keyed by file path).`);
+	}
+	const entries: ApiEntry[] = [];
+	let detailed = false;
+	const visit = (file: string, obj: any, parent: Definition | undefined, prefix: string) => {
+		if (!obj || typeof obj.name !== 'string' || typeof obj.type !== 'string') return;
+		if (obj.parameters || obj.returnType || obj.calls) detailed = true;
+		const def: Definition = { type: obj.type, name: obj.name, startLine: obj.startLine, endLine: obj.endLine, modifiers: getSavedModifiers(obj) };
+		const qualifiedName = prefix ? `${prefix}.${obj.name}` : obj.name;
+		if (isApiDefinition(def, parent)) {
+			entries.push({
+				qualifiedName,
+				type: obj.type,
+				file,
+				modifiers: def.modifiers,
+				parameters: Array.isArray(obj.parameters) ? obj.parameters : [],
+				returnType: obj.returnType,
+				dataType: obj.dataType,
+			});
+		}
+		(Array.isArray(obj.children) ? obj.children : []).forEach((child: any) => visit(file, child, def, qualifiedName));
+	};
+	for (const file in saved) {
+		if (!Array.isArray(saved[file])) {
+			throw new Error(`Invalid saved scan ${jsonPath}: '${file}' is not a list of definitions.`);
+		}
+		saved[file].forEach((obj: any) => visit(file, obj, undefined, ''));
+	}
+	return { label: jsonPath, entries, detailed };
+}
+
+// Scans directory as it was at a git ref, using a temporary detached worktree
+async function loadApiSnapshotFromRef(
+	directory: string,
+	ref: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions,
+	concurrency?: number
+): Promise<ApiSnapshot> {
+	const targetDir = path.resolve(process.cwd(), directory);
+	try {
+		await runGit(targetDir, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+	} catch {
+		throw new Error(`'${ref}' is neither a saved scan file nor a git ref in ${targetDir}.`);
+	}
+	const prefix = (await runGit(targetDir, ["rev-parse", "--show-prefix"])).trim();
+	const worktreeDir = await fs.mkdtemp(path.join(os.tmpdir(), "code-scanner-diff-"));
+	try {
+		await runGit(targetDir, ["worktree", "add", "--detach", "--quiet", worktreeDir, ref]);
+		console.error(`Checked out ${ref} into ${worktreeDir}`);
+		const { results } = await scanDirectory(path.join(worktreeDir, prefix), filePatterns, filterOptions, { useCache: false, concurrency });
+		return { label: ref, entries: getApiEntriesFromResults(results), detailed: true };
+	} finally {
+		await runGit(targetDir, ["worktree", "remove", "--force", worktreeDir]).catch(error =>
+			console.error(`Could not remove temporary worktree ${worktreeDir}: ${error.message}`)
+		);
+		await fs.rm(worktreeDir, { recursive: true, force: true });
+	}
+}
+
+// A source is a saved JSON scan if such a file exists (relative to baseDir), otherwise a git ref
+async function loadApiSnapshot(
+	source: string,
+	baseDir: string,
+	directory: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions,
+	concurrency?: number
+): Promise<ApiSnapshot> {
+	const jsonPath = path.resolve(baseDir, source);
+	try {
+		if ((await fs.stat(jsonPath)).isFile()) return await loadApiSnapshotFromJson(jsonPath);
+	} catch (error: any) {
+		if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error;
+	}
+	return loadApiSnapshotFromRef(directory, source, filePatterns, filterOptions, concurrency);
+}
+
+function formatApiParameters(parameters: Parameter[]): string {
+	return `(${parameters.map(p => p.type ? `${p.name}: ${p.type}` : p.name).join(', ')})`;
+}
+
+function getApiSignature(entry: ApiEntry): string {
+	return `${formatApiParameters(entry.parameters || [])}${entry.returnType ? `: ${entry.returnType}` : ''}`;
+}
+
+// Optional parameters can be appended without breaking callers
+function isOptionalParameter(parameter: Parameter): boolean {
+	return /\?$|^\.\.\.|^\*|=/.test(parameter.name);
+}
+
+function compareApiEntries(before: ApiEntry, after: ApiEntry, compareSignatures: boolean): ApiChange | undefined {
+	const details: string[] = [];
+	let breaking = false;
+
+	if (before.type !== after.type) {
+		details.push(`kind: \`${before.type}\` → \`${after.type}\``);
+		breaking = true;
+	}
+
+	const oldModifiers = getModifierWords(before);
+	const newModifiers = getModifierWords(after);
+	if (oldModifiers.join(' ') !== newModifiers.join(' ')) {
+		details.push(`modifiers: \`${oldModifiers.join(' ') || '(none)'}\` → \`${newModifiers.join(' ') || '(none)'}\``);
+		const added = newModifiers.filter(word => !oldModifiers.includes(word));
+		const removed = oldModifiers.filter(word => !newModifiers.includes(word));
+		if (added.some(word => restrictingModifiers.includes(word)) ||
+			removed.some(word => exposingModifiers.includes(word)) ||
+			oldModifiers.includes('static') !== newModifiers.includes('static')) {
+			breaking = true;
+		}
+	}
+
+	if (compareSignatures && callableTypes.includes(after.type)) {
+		const oldParams = before.parameters || [];
+		const newParams = after.parameters || [];
+		if (formatApiParameters(oldParams) !== formatApiParameters(newParams)) {
+			details.push(`parameters: \`${formatApiParameters(oldParams)}\` → \`${formatApiParameters(newParams)}\``);
+			// Renaming a parameter is fine, changing its type, removing it or adding a required one isn't
+			if (newParams.length < oldParams.length ||
+				oldParams.some((param, i) => (param.type || '') !== (newParams[i].type || '')) ||
+				newParams.slice(oldParams.length).some(param => !isOptionalParameter(param))) {
+				breaking = true;
+			}
+		}
+		if ((before.returnType || '') !== (after.returnType || '')) {
+			details.push(`return type: \`${before.returnType || '(none)'}\` → \`${after.returnType || '(none)'}\``);
+			breaking = true;
+		}
+	}
+	if (compareSignatures && (before.dataType || '') !== (after.dataType || '')) {
+		details.push(`type: \`${before.dataType || '(none)'}\` → \`${after.dataType || '(none)'}\``);
+		breaking = true;
+	}
+
+	if (details.length === 0) return undefined;
+	return { kind: 'changed', qualifiedName: after.qualifiedName, type: after.type, file: after.file, breaking, details };
+}
+
+function diffApiSnapshots(base: ApiSnapshot, head: ApiSnapshot): ApiDiff {
+	const compareSignatures = base.detailed && head.detailed;
+	if (!compareSignatures) {
+		console.warn("Warning: A saved scan was not created with --detail detailed, parameters and return types are not compared.");
+	}
+
+	// Entries sharing a qualified name (overloads, Python functions that are also methods) are paired
+	// by kind and signature first
+	const unmatched = new Map<string, ApiEntry[]>();
+	head.entries.forEach(entry => {
+		if (!unmatched.has(entry.qualifiedName)) unmatched.set(entry.qualifiedName, []);
+		unmatched.get(entry.qualifiedName)!.push(entry);
+	});
+	const takeMatch = (entry: ApiEntry, sameFile: boolean): ApiEntry | undefined => {
+		const candidates = unmatched.get(entry.qualifiedName);
+		if (!candidates) return undefined;
+		const matches = (c: ApiEntry) => !sameFile || c.file === entry.file;
+		const index = [
+			candidates.findIndex(c => matches(c) && c.type === entry.type && getApiSignature(c) === getApiSignature(entry)),
+			candidates.findIndex(c => matches(c) && c.type === entry.type),
+			candidates.findIndex(matches),
+		].find(i => i >= 0);
+		return index === undefined ? undefined : candidates.splice(index, 1)[0];
+	};
+	// Pair within the same file first, so same-named definitions of different files (helper, index, ...)
+	// aren't cross-paired, then by name alone for definitions moved to another file
+	const pairs = new Map<ApiEntry, ApiEntry>();
+	for (const sameFile of [true, false]) {
+		for (const before of base.entries) {
+			if (pairs.has(before)) continue;
+			const after = takeMatch(before, sameFile);
+			if (after) pairs.set(before, after);
+		}
+	}
+
+	const changes: ApiChange[] = [];
+	for (const before of base.entries) {
+		const after = pairs.get(before);
+		if (!after) {
+			changes.push({ kind: 'removed', qualifiedName: before.qualifiedName, type: before.type, file: before.file, breaking: true, details: [] });
+			continue;
+		}
+		const change = compareApiEntries(before, after, compareSignatures);
+		if (change) changes.push(change);
+	}
+	unmatched.forEach(entries => entries.forEach(after => {
+		changes.push({ kind: 'added', qualifiedName: after.qualifiedName, type: after.type, file: after.file, breaking: false, details: [] });
+	}));
+	changes.sort((a, b) => a.qualifiedName.localeCompare(b.qualifiedName) || a.kind.localeCompare(b.kind));
+
+	return {
+		base: base.label,
+		head: head.label,
+		summary: {
+			added: changes.filter(c => c.kind === 'added').length,
+			removed: changes.filter(c => c.kind === 'removed').length,
+			changed: changes.filter(c => c.kind === 'changed').length,
+			breaking: changes.filter(c => c.breaking).length,
+		},
+		changes,
+	};
+}
+
+function formatApiDiff(diff: ApiDiff, format: 'markdown' | 'json'): string {
+	if (format === 'json') return JSON.stringify(diff, null, 2);
+
+	const { summary } = diff;
+	let md = `# API Diff: \`${diff.base}\` → \`${diff.head}\`\n\n`;
+	md += `${summary.added} added, ${summary.removed} removed, ${summary.changed} changed (${summary.breaking} breaking)\n\n`;
+	const renderChange = (change: ApiChange) => {
+		const label = change.kind.charAt(0).toUpperCase() + change.kind.slice(1);
+		const details = change.details.length > 0 ? `: ${change.details.join('; ')}` : '';
+		return `- **${label}** ${change.type.toUpperCase()} \`${change.qualifiedName}\` (\`${change.file}\`)${details}\n`;
+	};
+	const sections: [string, ApiChange[]][] = [
+		["Breaking Changes", diff.changes.filter(c => c.breaking)],
+		["Added", diff.changes.filter(c => c.kind === 'added')],
+		["Other Changes", diff.changes.filter(c => c.kind === 'changed' && !c.breaking)],
+	];
+	for (const [title, changes] of sections) {
+		if (changes.length === 0) continue;
+		md += `## ${title}\n\n${changes.map(renderChange).join('')}\n`;
+	}
+	if (diff.changes.length === 0) md += "No API changes.\n";
+	return md;
+}
+
+// Compares two sources (git refs or saved JSON scans); without a head source the directory's current state is used
+async function diffApi(
+	directory: string,
+	baseSource: string,
+	headSource: string | undefined,
+	sourceBaseDir: string,
+	filePatterns: string[],
+	filterOptions: FilterOptions,
+	scanOptions: ScanOptions = {}
+): Promise<ApiDiff> {
+	filterOptions = { ...filterOptions, sinceRef: undefined }; // Both sides are compared in full
+	const base = await loadApiSnapshot(baseSource, sourceBaseDir, directory, filePatterns, filterOptions, scanOptions.concurrency);
+	let head: ApiSnapshot;
+	if (headSource) {
+		head = await loadApiSnapshot(headSource, sourceBaseDir, directory, filePatterns, filterOptions, scanOptions.concurrency);
+	} else {
+		const { results } = await scanDirectory(directory, filePatterns, filterOptions, scanOptions);
+		head = { label: "working tree", entries: getApiEntriesFromResults(results), detailed: true };
+	}
+	return diffApiSnapshots(base, head);
+}
+
+// --- Project Configuration ---
+// Scan defaults from the nearest .codescannerrc.json / code-scanner.config.json above the scanned
+// directory. CLI options and MCP tool arguments are parsed into the same settings and override it.
+const CONFIG_FILE_NAMES = [".codescannerrc.json", "code-scanner.config.json"];
+
+interface ScanSettings extends FilterOptions {
+	filePatterns?: string[];
+	outputFormat?: 'xml' | 'markdown' | 'json' | 'sarif' | 'ctags' | 'etags';
+	detailLevel?: 'minimal' | 'standard' | 'detailed';
+	useCache?: boolean;
+	concurrency?: number;
+	maxTokens?: number;
+	maxChars?: number;
+	docFirstSentence?: boolean;
+	thresholds?: MetricThresholds; // Quality gate of the metrics report
+	forbiddenPatterns?: ForbiddenPattern[]; // Reported by SARIF output
+}
+
+// An array of strings lists the allowed values
+type SettingType = 'string' | 'string[]' | 'regex' | 'number' | 'positiveInteger' | 'boolean' | 'thresholds' | 'forbiddenPatterns' | string[];
+
+const scanSettingsSchema: { [key in keyof ScanSettings]-?: SettingType } = {
+	filePatterns: 'string[]',
+	outputFormat: ['xml', 'markdown', 'json', 'sarif', 'ctags', 'etags'],
+	detailLevel: ['minimal', 'standard', 'detailed'],
+	includeTypes: 'string[]',
+	excludeTypes: 'string[]',
+	includeModifiers: 'string[]',
+	excludeModifiers: 'string[]',
+	hasAnnotation: 'string[]',
+	namePattern: 'regex',
+	excludeNamePattern: 'regex',
+	includePaths: 'string[]',
+	excludePaths: 'string[]',
+	sinceRef: 'string',
+	exportedOnly: 'boolean',
+	maxComplexity: 'number',
+	minComplexity: 'number',
+	maxParameters: 'number',
+	minParameters: 'number',
+	useCache: 'boolean',
+	concurrency: 'positiveInteger',
+	maxTokens: 'positiveInteger',
+	maxChars: 'positiveInteger',
+	docFirstSentence: 'boolean',
+	thresholds: 'thresholds',
+	forbiddenPatterns: 'forbiddenPatterns',
+};
+
+// Returns why a value doesn't match its setting type, or undefined if it does
+function checkSettingValue(value: unknown, type: SettingType): string | undefined {
+	if (Array.isArray(type)) {
+		return type.includes(value as string) ? undefined : `must be one of ${type.map(v => `"${v}"`).join(', ')}`;
+	}
+	switch (type) {
+		case 'string':
+			return typeof value === 'string' && value !== '' ? undefined : 'must be a non-empty string';
+		case 'string[]':
+			return Array.isArray(value) && value.every(v => typeof v === 'string') ? undefined : 'must be an array of strings';
+		case 'regex':
+			if (typeof value !== 'string') return 'must be a string';
+			try {
+				new RegExp(value);
+				return undefined;
+			} catch (error: any) {
+				return `is not a valid regular expression (${error.message})`;
+			}
+		case 'number':
+			return typeof value === 'number' && value >= 0 ? undefined : 'must be a non-negative number';
+		case 'positiveInteger':
+			return Number.isInteger(value) && (value as number) >= 1 ? undefined : 'must be an integer of at least 1';
+		case 'boolean':
+			return typeof value === 'boolean' ? undefined : 'must be true or false';
+		case 'thresholds': {
+			if (!value || typeof value !== 'object' || Array.isArray(value)) return `must be an object of metric limits (${metricNames.join(', ')})`;
+			const problems = Object.entries(value).map(([metric, limit]) => {
+				if (!metricNames.includes(metric as MetricName)) return `has unknown metric "${metric}" (allowed: ${metricNames.join(', ')})`;
+				return typeof limit === 'number' && limit >= 0 ? undefined : `has an invalid limit for "${metric}" (must be a non-negative number)`;
+			}).filter(Boolean);
+			return problems.length > 0 ? problems.join(', ') : undefined;
+		}
+		case 'forbiddenPatterns':
+			return checkForbiddenPatterns(value);
+	}
+}
+
+// Validates settings against scanSettingsSchema, reporting every problem at once.
+// Unset (undefined/null) values are skipped, list values are split at commas.
+function parseScanSettings(values: Record<string, unknown>, source: string, rejectUnknown = false): ScanSettings {
+	const settings: { [key: string]: unknown } = {};
+	const problems: string[] = [];
+	for (const key of Object.keys(values)) {
+		const value = values[key];
+		if (value === undefined || value === null) continue;
+		const type = scanSettingsSchema[key as keyof ScanSettings];
+		if (!type) {
+			if (rejectUnknown && key !== '$schema') {
+				problems.push(`unknown setting "${key}" (allowed: ${Object.keys(scanSettingsSchema).join(', ')})`);
+			}
+			continue;
+		}
+		const problem = checkSettingValue(value, type);
+		if (problem) {
+			problems.push(`"${key}" ${problem}, got ${JSON.stringify(value)}`);
+			continue;
+		}
+		settings[key] = type === 'string[]'
+			? (value as string[]).flatMap(v => v.includes(',') ? v.split(',') : v)
+			: value;
+	}
+	if (problems.length > 0) {
+		throw new Error(`Invalid ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+	}
+	return settings as ScanSettings;
+}
+
+async function findConfigFile(startDir: string): Promise<string | undefined> {
+	return findUp(CONFIG_FILE_NAMES, { cwd: startDir });
+}
+
+async function loadProjectConfig(targetDir: string): Promise<ScanSettings> {
+	const configPath = await findConfigFile(targetDir);
+	if (!configPath) return {};
+	let config: unknown;
+	try {
+		config = JSON.parse(await fs.readFile(configPath, "utf-8"));
+	} catch (error: any) {
+		throw new Error(`Could not read config file ${configPath}: ${error.message}`);
+	}
+	if (!config || typeof config !== 'object' || Array.isArray(config)) {
+		throw new Error(`Invalid config file ${configPath}: expected a JSON object.`);
+	}
+	console.error(`Using config file: ${configPath}`);
+	return parseScanSettings(config as Record<string, unknown>, `config file ${configPath}`, true);
+}
+
+// Applies explicitly given settings over the project config of the scanned directory
+async function resolveScanSettings(directory: string, overrides: ScanSettings): Promise<ScanSettings> {
+	const settings: ScanSettings = await loadProjectConfig(path.resolve(process.cwd(), directory));
+	for (const key of Object.keys(overrides) as (keyof ScanSettings)[]) {
+		if (overrides[key] !== undefined) (settings as any)[key] = overrides[key];
+	}
+	return settings;
+}
+
+// Output format of the report modes (API diff, references, metrics)
+function getReportFormat(outputFormat: ScanSettings['outputFormat'], mode: string): 'markdown' | 'json' {
+	if (outputFormat === undefined || outputFormat === 'markdown' || outputFormat === 'json') return outputFormat || 'markdown';
+	throw new Error(`${mode} supports markdown and json output only.`);
+}
+
+// Splits resolved settings into the pieces scanDirectory takes
+function getScanArguments(settings: ScanSettings): { filePatterns: string[]; filterOptions: FilterOptions; scanOptions: ScanOptions } {
+	const { filePatterns, outputFormat, detailLevel, useCache, concurrency, maxTokens, maxChars, docFirstSentence, thresholds, forbiddenPatterns, ...filterOptions } = settings;
+	return {
+		filePatterns: filePatterns || defaultFilePatterns,
+		filterOptions,
+		scanOptions: { useCache, concurrency },
+	};
+}
+
+// --- CLI Argument Parsing and Execution --- Refactored
+async function runCli() {
+    const argv = await yargs(hideBin(process.argv))
+        .option('directory', {
+            alias: 'd',
+            type: 'string',
+            description: 'The directory to scan',
+            demandOption: false, // Make it optional initially to check if CLI mode is intended
+        })
+        .option('patterns', {
+            alias: 'p',
+            type: 'array',
+            string: true, // Ensure array elements are treated as strings
+            description: 'Glob patterns for file extensions to include',
+            defaultDescription: 'all supported languages',
+        })
+        .option('format', {
+            alias: 'f',
+            type: 'string',
+            choices: ['xml', 'markdown', 'json', 'sarif', 'ctags', 'etags'],
+            description: 'Output format (sarif: metric threshold violations, syntax errors and forbidden patterns as a SARIF 2.1.0 log; ctags/etags: tags file for Vim/Emacs)',
+            defaultDescription: 'markdown',
+        })
+        .option('detail', {
+            alias: 'l',
+            type: 'string',
+            choices: ['minimal', 'standard', 'detailed'],
+            description: 'Level of detail to include in the output',
+            defaultDescription: 'standard',
+        })
+        .option('include-types', {
+            type: 'array',
+            string: true,
+            description: 'Element types to include (e.g., class,method)',
+        })
+        .option('exclude-types', {
+            type: 'array',
+            string: true,
+            description: 'Element types to exclude',
+        })
+        .option('include-modifiers', {
+            type: 'array',
+            string: true,
+            description: 'Modifiers to include (e.g., public,private)',
+        })
+        .option('exclude-modifiers', {
+            type: 'array',
+            string: true,
+            description: 'Modifiers to exclude',
+        })
+        .option('has-annotation', {
+            type: 'array',
+            string: true,
+            description: 'Only include definitions with one of these decorators/attributes/annotations (e.g., HttpGet, @pytest.fixture)',
+        })
+        .option('name-pattern', {
+            type: 'string',
+            description: 'Regex pattern to match element names',
+        })
+        .option('min-complexity', {
+            type: 'number',
+            description: 'Only include definitions with at least this cyclomatic complexity',
+        })
+        .option('max-complexity', {
+            type: 'number',
+            description: 'Only include definitions with at most this cyclomatic complexity',
+        })
+        .option('min-parameters', {
+            type: 'number',
+            description: 'Only include definitions with at least this many parameters',
+        })
+        .option('max-parameters', {
+            type: 'number',
+            description: 'Only include definitions with at most this many parameters',
+        })
+        .option('exclude-name-pattern', {
+            type: 'string',
+            description: 'Regex pattern to exclude element names',
+        })
+        .option('include-paths', {
+            type: 'array',
+            string: true,
+            description: 'Additional file path patterns to include',
+        })
+        .option('exclude-paths', {
+            type: 'array',
+            string: true,
+            description: 'File path patterns to exclude',
+        })
+        .option('since', {
+            type: 'string',
+            description: 'Only scan files changed since this git ref (including staged, unstaged and untracked changes) and mark changed definitions',
+        })
+        .option('public-api', {
+            type: 'boolean',
+            description: 'Only list the public API: exported JS/TS symbols (with the module paths they are exported from), public C#/Java/PHP/Rust members, Python __all__ or non-underscore names',
+        })
+        .option('cache', {
+            type: 'boolean',
+            description: `Reuse parse results stored in ${PARSE_CACHE_DIR} for unchanged files (disable with --no-cache)`,
+            defaultDescription: 'true',
+        })
+        .option('clear-cache', {
+            type: 'boolean',
+            description: 'Delete the parse cache before scanning',
+            default: false,
+        })
+        .option('concurrency', {
+            alias: 'j',
+            type: 'number',
+            description: 'Number of worker threads used for parsing (1 = parse on the main thread)',
+            defaultDescription: String(defaultConcurrency),
+        })
+        .option('max-tokens', {
+            type: 'number',
+            description: 'Limit the output to about this many tokens: lowers the detail level, then lists a page of files and summarises the rest by directory',
+        })
+        .option('max-chars', {
+            type: 'number',
+            description: 'Limit the output to this many characters (like --max-tokens)',
+        })
+        .option('doc-first-sentence', {
+            type: 'boolean',
+            description: 'Show only the first sentence of doc comments (detailed level)',
+        })
+        .option('cursor', {
+            type: 'string',
+            description: 'Continue a limited output with the next page (cursor printed by the previous page)',
+        })
+        .option('resource-roots', {
+            type: 'array',
+            string: true,
+            description: 'MCP server mode: directories whose outlines are listed as resources from the start (scanned directories are added automatically)',
+        })
+        .option('index-memory-limit', {
+            type: 'number',
+            description: 'MCP server mode: memory limit in MB for warm in-memory indexes of scanned directories (0 disables them)',
+            default: 256,
+        })
+        .option('check-ignore', {
+            type: 'array',
+            string: true,
+            description: 'Show which ignore file rule or excludePaths pattern excludes the given paths (relative to --directory) instead of scanning',
+        })
+        .option('diff', {
+            type: 'array',
+            string: true,
+            description: 'Compare the API of two git refs or saved JSON scans (<base> [head], head defaults to the current files) instead of scanning; output in markdown or json',
+        })
+        .option('find-references', {
+            type: 'string',
+            description: 'List the occurrences of an identifier (calls, member accesses, type references, imports, ...) instead of definitions; output in markdown or json',
+        })
+        .option('reference-kinds', {
+            type: 'array',
+            string: true,
+            choices: ['definition', 'import', 'call', 'member', 'type', 'reference'],
+            description: 'Only list these kinds of occurrences with --find-references',
+        })
+        .option('call-graph', {
+            type: 'string',
+            description: 'Output the call graph of a function/method (name or qualified name like Class.method) instead of a definition list',
+        })
+        .option('call-graph-file', {
+            type: 'string',
+            description: 'Restrict the call graph root to definitions in this file (relative to --directory)',
+        })
+        .option('call-graph-direction', {
+            type: 'string',
+            choices: ['callers', 'callees', 'both'],
+            description: 'Which side of the call graph to follow',
+            default: 'both',
+        })
+        .option('call-graph-depth', {
+            type: 'number',
+            description: 'Maximum number of call levels to follow from the root',
+            default: 2,
+        })
+        .option('metrics', {
+            type: 'boolean',
+            description: 'Output a code metrics report (per definition, file and directory) instead of a definition list; exits with code 2 when a --threshold is exceeded',
+        })
+        .option('threshold', {
+            type: 'array',
+            string: true,
+            description: `Metric limits for --metrics as <metric>=<value> (${metricNames.join(', ')}), e.g. complexity=10`,
+        })
+        .option('metrics-top', {
+            type: 'number',
+            description: 'Number of top offenders listed per metric with --metrics',
+            default: DEFAULT_TOP_OFFENDERS,
+        })
+        .option('tags-file', {
+            type: 'string',
+            description: 'Write the ctags (default) or etags (-f etags) output to this file, with paths relative to its directory',
+        })
+        .option('tags-update', {
+            type: 'boolean',
+            description: 'Update the --tags-file: re-scan only files modified since it was written and drop entries of deleted files',
+        })
+        .option('deps', {
+            type: 'boolean',
+            description: 'Output the import dependency graph (with import cycles) instead of a definition list',
+        })
+        .option('deps-level', {
+            type: 'string',
+            choices: ['file', 'package'],
+            description: 'Draw the dependency graph between files or packages (mermaid/dot output)',
+            default: 'file',
+        })
+        .option('deps-external', {
+            type: 'boolean',
+            description: 'Include external packages in mermaid/dot dependency graphs',
+            default: false,
+        })
+        .option('graph-format', {
+            type: 'string',
+            choices: ['json', 'mermaid', 'dot'],
+            description: 'Output format for graph modes (--call-graph, --deps)',
+            default: 'json',
+        })
+        .help()
+        .alias('help', 'h')
+        .argv;
+
+    // Check if --directory was provided, indicating CLI usage
+    if (argv.directory) {
+        try {
+            // Explicit options override the project config file
+            const settings = await resolveScanSettings(argv.directory, parseScanSettings({
+                filePatterns: argv.patterns,
+                outputFormat: argv.format,
+                detailLevel: argv.detail,
+                includeTypes: argv['include-types'],
+                excludeTypes: argv['exclude-types'],
+                includeModifiers: argv['include-modifiers'],
+                excludeModifiers: argv['exclude-modifiers'],
+                hasAnnotation: argv['has-annotation'],
+                namePattern: argv['name-pattern'],
+                minComplexity: argv['min-complexity'],
+                maxComplexity: argv['max-complexity'],
+                minParameters: argv['min-parameters'],
+                maxParameters: argv['max-parameters'],
+                excludeNamePattern: argv['exclude-name-pattern'],
+                includePaths: argv['include-paths'],
+                excludePaths: argv['exclude-paths'],
+                sinceRef: argv.since,
+                exportedOnly: argv['public-api'],
+                useCache: argv.cache,
+                concurrency: argv.concurrency,
+                maxTokens: argv['max-tokens'],
+                maxChars: argv['max-chars'],
+                docFirstSentence: argv['doc-first-sentence'],
+                thresholds: argv.threshold ? parseThresholdArguments(argv.threshold as string[]) : undefined,
+            }, 'command line options'));
+            const { filePatterns, filterOptions, scanOptions } = getScanArguments(settings);
+            scanOptions.clearCache = argv['clear-cache'];
+
+            let output: string;
+            let exitCode = 0;
+            if (argv.diff) {
+                const sources = argv.diff as string[];
+                if (sources.length < 1 || sources.length > 2) {
+                    throw new Error("--diff takes a base and an optional head (git refs or saved JSON scans).");
+                }
+                const format = getReportFormat(settings.outputFormat, '--diff');
+                const diff = await diffApi(argv.directory, sources[0], sources[1], process.cwd(), filePatterns, filterOptions, scanOptions);
+                output = formatApiDiff(diff, format);
+            } else if (argv['check-ignore']) {
+                output = await checkIgnore(argv.directory, argv['check-ignore'] as string[], filterOptions.excludePaths);
+            } else if (argv['find-references'] !== undefined) {
+                const format = getReportFormat(settings.outputFormat, '--find-references');
+                const result = await findReferences(
+                    argv.directory,
+                    argv['find-references'],
+                    filePatterns,
+                    filterOptions,
+                    scanOptions,
+                    argv['reference-kinds'] as ReferenceKind[] | undefined
+                );
+                output = formatReferences(result, format);
+            } else if (argv.metrics) {
+                const format = getReportFormat(settings.outputFormat, '--metrics');
+                const report = await getCodeMetrics(argv.directory, filePatterns, filterOptions, scanOptions, settings.thresholds, argv['metrics-top']);
+                output = formatMetricsReport(report, format);
+                if (!report.passed) exitCode = 2; // Fails CI quality gates
+            } else if (argv.deps) {
+                const graph = await getDependencyGraph(argv.directory, filePatterns, filterOptions);
+                output = formatDependencyGraph(graph, argv['graph-format'] as GraphFormat, argv['deps-level'] as DependencyLevel, argv['deps-external']);
+            } else if (argv['call-graph']) {
+                // Call graph mode: only path filters apply, definition filters would hide callers/callees
+                const { results } = await scanDirectory(
+                    argv.directory,
+                    filePatterns,
+                    { includePaths: filterOptions.includePaths, excludePaths: filterOptions.excludePaths },
+                    scanOptions
+                );
+                const graph = buildCallGraph(
+                    results,
+                    argv['call-graph'],
+                    argv['call-graph-direction'] as CallGraphDirection,
+                    argv['call-graph-depth'],
+                    argv['call-graph-file']
+                );
+                output = formatCallGraph(graph, argv['graph-format'] as GraphFormat);
+            } else if (argv['tags-file']) {
+                // Without --format, write ctags unless the config file asks for etags
+                const format = settings.outputFormat === 'etags' || settings.outputFormat === 'ctags' ? settings.outputFormat : argv.format === undefined ? 'ctags' : undefined;
+                if (!format) {
+                    throw new Error("--tags-file supports ctags and etags output only.");
+                }
+                output = await writeTagsFile(argv.directory, filePatterns, format, argv['tags-file'], argv['tags-update'] === true, filterOptions, scanOptions);
+            } else if (argv['tags-update']) {
+                throw new Error("--tags-update needs the --tags-file to update.");
+            } else if (settings.outputFormat === 'ctags' || settings.outputFormat === 'etags') {
+                const tags = await getTags(argv.directory, filePatterns, settings.outputFormat, filterOptions, scanOptions);
+                output = tags.slice(0, -1); // console.log adds the final line break
+            } else if (settings.outputFormat === 'sarif') {
+                const log = await getSarifLog(argv.directory, filePatterns, filterOptions, scanOptions, settings.thresholds, settings.forbiddenPatterns);
+                output = JSON.stringify(log, null, 2);
+            } else {
+                output = await performScan(
+                    argv.directory,
+                    filePatterns,
+                    settings.outputFormat || 'markdown',
+                    settings.detailLevel || 'standard',
+                    filterOptions,
+                    scanOptions,
+                    { maxTokens: settings.maxTokens, maxChars: settings.maxChars, cursor: argv.cursor },
+                    settings.docFirstSentence
+                );
+            }
+            console.log(output); // Print result to stdout for CLI use
+            process.exit(exitCode); // Exit successfully after CLI run, unless a quality gate failed
+        } catch (error: any) {
+            console.error("Error during CLI scan:", error.message);
+            process.exit(1); // Exit with error
+        }
+    } else {
+        // No --directory provided, assume MCP server mode
+        warmIndexMemoryLimit = Math.floor(Math.max(0, argv['index-memory-limit']) * 1024 * 1024);
+        (argv['resource-roots'] as string[] | undefined)?.forEach(root => resourceRoots.add(path.resolve(root)));
+        return false; // Indicate MCP mode should proceed
+    }
+    return true; // Indicate CLI mode was handled
+}
+
+// --- MCP Server Setup --- (Only runs if not in CLI mode)
+const server = new Server(
+	{
+		name: "code-scanner-server",
+		version: SCANNER_VERSION,
+		description:
+			"A tool that scans code files (JS, TS, C#, PHP, CSS, Python, Java, Go, Rust) for definitions like functions, classes, methods, etc., respecting .gitignore and providing line numbers. Output format: XML, Markdown, JSON, SARIF, ctags, or etags.",
+	},
+	{
+		capabilities: {
+			tools: {},
+			resources: { subscribe: true, listChanged: true },
+		},
+	}
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+	return {
+		tools: [
+			{
+				name: "scan_code",
+				description:
+					"Scans a directory for code files (JS, TS, C#, PHP, CSS, Python, Java, Go, Rust, respecting .gitignore) and lists definitions (functions, classes, etc.) with line numbers. Supports XML, Markdown, and JSON output, a SARIF log of findings, or ctags/etags tags files. Omitted arguments default to the project's .codescannerrc.json / code-scanner.config.json, if any.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
+							type: "string",
+							description:
+								"The absolute path to the directory to scan. Relative paths are not supported.",
+						},
+						filePatterns: {
+							type: "array",
+							items: { type: "string" },
+							description:
+								"Glob patterns for file extensions to include.",
+							default: defaultFilePatterns, // Use consistent defaults
+						},
+						outputFormat: {
+							type: "string",
+							enum: ["xml", "markdown", "json", "sarif", "ctags", "etags"],
+							description: "Output format for the results. 'sarif' returns a SARIF 2.1.0 log of findings instead of definitions: metric threshold violations (rules metric/<metric>), syntax errors (syntax-error) and forbiddenPatterns matches (forbidden/<id>). 'ctags' (Universal Ctags extended format with kind, line, scope and end fields) and 'etags' return a tags file with paths relative to the directory.",
+							default: "markdown",
+						},
+						detailLevel: {
+							type: "string",
+							enum: ["minimal", "standard", "detailed"],
+							description: "Level of detail to include in the output.",
+							default: "standard",
+						},
+						includeTypes: {
+							type: "array",
+							items: { type: "string" },
+							description: "Element types to include (e.g., class, method).",
+						},
+						excludeTypes: {
+							type: "array",
+							items: { type: "string" },
+							description: "Element types to exclude.",
+						},
+						includeModifiers: {
+							type: "array",
+							items: { type: "string" },
+							description: "Modifiers to include (e.g., public, private).",
+						},
+						excludeModifiers: {
+							type: "array",
+							items: { type: "string" },
+							description: "Modifiers to exclude.",
+						},
+						hasAnnotation: {
+							type: "array",
+							items: { type: "string" },
+							description: "Only include definitions with one of these decorators, attributes or annotations (e.g., HttpGet, @pytest.fixture). Matches the full name or its last segment.",
+						},
+						namePattern: {
+							type: "string",
+							description: "Regex pattern to match element names.",
+						},
+						excludeNamePattern: {
+							type: "string",
+							description: "Regex pattern to exclude element names.",
+						},
+						minComplexity: {
+							type: "number",
+							description: "Only include definitions with at least this cyclomatic complexity.",
+						},
+						maxComplexity: {
+							type: "number",
+							description: "Only include definitions with at most this cyclomatic complexity.",
+						},
+						minParameters: {
+							type: "number",
+							description: "Only include definitions with at least this many parameters.",
+						},
+						maxParameters: {
+							type: "number",
+							description: "Only include definitions with at most this many parameters.",
+						},
+						includePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "Additional file path patterns to include.",
+						},
+						excludePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "File path patterns to exclude.",
+						},
+						exportedOnly: {
+							type: "boolean",
+							description: "Only list the public API: exported JS/TS symbols (ESM exports, re-exports through barrel files, module.exports), public C#/Java/PHP/Rust definitions, Go capitalized names, Python __all__ or non-underscore names. Exported top-level definitions get an 'exportedFrom' list of the module paths (and names) consumers import them from.",
+						},
+						sinceRef: {
+							type: "string",
+							description: "Only scan files changed since this git ref (e.g., 'main' or 'HEAD~3'), including staged, unstaged and untracked changes. Definitions overlapping changed lines get a 'change' field: 'added', 'modified' or 'touched' (only nested definitions changed).",
+						},
+						useCache: {
+							type: "boolean",
+							description: "Reuse parse results cached on disk for unchanged files.",
+							default: true,
+						},
+						clearCache: {
+							type: "boolean",
+							description: "Delete the parse cache before scanning.",
+							default: false,
+						},
+						concurrency: {
+							type: "number",
+							description: "Number of worker threads used for parsing (1 = parse on the main thread).",
+						},
+						maxTokens: {
+							type: "number",
+							description: "Approximate token budget for the output (4 characters per token). Over budget, the detail level is lowered (detailed → standard → minimal), then only a page of files is listed, the rest is summarised per directory and a 'nextCursor' is returned. The output states what was left out.",
+						},
+						maxChars: {
+							type: "number",
+							description: "Character budget for the output, like maxTokens.",
+						},
+						docFirstSentence: {
+							type: "boolean",
+							description: "Show only the first sentence of doc comments. Doc comments (JSDoc/TSDoc, PHPDoc, Javadoc, C# XML docs, Rust/Go comments, Python docstrings) are included at the 'detailed' level with their raw text and parsed tags.",
+						},
+						cursor: {
+							type: "string",
+							description: "Fetch the next page of a limited output: the 'nextCursor' of the previous page. Use the same arguments otherwise.",
+						},
+						thresholds: {
+							type: "object",
+							properties: Object.fromEntries(metricNames.map(metric => [metric, { type: "number" }])),
+							additionalProperties: false,
+							description: "SARIF output: highest allowed value per metric (lowest for maintainabilityIndex), e.g. { \"complexity\": 10 }.",
+						},
+						forbiddenPatterns: {
+							type: "array",
+							items: {
+								type: "object",
+								properties: {
+									id: { type: "string" },
+									message: { type: "string" },
+									level: { type: "string", enum: ["error", "warning", "note"] },
+									paths: { type: "array", items: { type: "string" } },
+									...Object.fromEntries(forbiddenPatternFilterKeys.map(key => [key, { type: scanSettingsSchema[key] === 'string[]' ? "array" : scanSettingsSchema[key] === 'number' ? "number" : "string" }])),
+								},
+								required: ["id"],
+							},
+							description: "SARIF output: definitions that are not allowed, each with an id (rule forbidden/<id>), an optional message, level and paths (globs), and definition filters (includeTypes, namePattern, hasAnnotation, maxParameters, ...). E.g. [{ \"id\": \"no-sync-io\", \"namePattern\": \"Sync$\", \"includeTypes\": [\"function\"] }].",
+						},
+					},
+					required: ["directory"],
+				},
+			},
+			{
+				name: "get_call_graph",
+				description:
+					"Builds a cross-file call graph for a function or method: resolves call names to definitions in all scanned files and returns its callers and/or callees up to a given depth. Calls matching several definitions are marked as ambiguous. Supports JSON, Mermaid and Graphviz DOT output.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
+							type: "string",
+							description:
+								"The absolute path to the directory to scan. Relative paths are not supported.",
+						},
+						symbol: {
+							type: "string",
+							description: "Name or qualified name (e.g., MyClass.myMethod) of the function/method to start from.",
+						},
+						file: {
+							type: "string",
+							description: "Optional file path (relative to directory) to disambiguate the symbol.",
+						},
+						direction: {
+							type: "string",
+							enum: ["callers", "callees", "both"],
+							description: "Follow callers, callees or both.",
+							default: "both",
+						},
+						depth: {
+							type: "number",
+							description: "Maximum number of call levels to follow.",
+							default: 2,
+						},
+						outputFormat: {
+							type: "string",
+							enum: ["json", "mermaid", "dot"],
+							description: "Output format for the graph.",
+							default: "json",
+						},
+						filePatterns: {
+							type: "array",
+							items: { type: "string" },
+							description: "Glob patterns for file extensions to include.",
+							default: defaultFilePatterns,
+						},
+						includePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "Additional file path patterns to include.",
+						},
+						excludePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "File path patterns to exclude.",
+						},
+						useCache: {
+							type: "boolean",
+							description: "Reuse parse results cached on disk for unchanged files.",
+							default: true,
+						},
+						clearCache: {
+							type: "boolean",
+							description: "Delete the parse cache before scanning.",
+							default: false,
+						},
+						concurrency: {
+							type: "number",
+							description: "Number of worker threads used for parsing (1 = parse on the main thread).",
+						},
+					},
+					required: ["directory", "symbol"],
+				},
+			},
+			{
+				name: "manage_index",
+				description:
+					"Manages the server's warm in-memory index. scan_code and get_call_graph keep parse results per scanned directory and watch it for changes, so repeated queries skip parsing. 'list' shows indexed directories, 'refresh' re-parses their files, 'evict' drops them (all directories if none is given).",
+				inputSchema: {
+					type: "object",
+					properties: {
+						action: {
+							type: "string",
+							enum: ["list", "refresh", "evict"],
+							description: "The index operation to perform.",
+						},
+						directory: {
+							type: "string",
+							description: "Absolute path of the indexed directory for 'refresh'/'evict'. Omit to apply to all.",
+						},
+					},
+					required: ["action"],
+				},
+			},
+			{
+				name: "read_definition",
+				description:
+					"Returns the exact source text of a definition (function, class, method, etc.) in a file, located by name, qualified name (e.g., MyClass.myMethod) or definition id. Respects ignore files and excludePaths like scan_code.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
+							type: "string",
+							description:
+								"The absolute path to the project directory. Relative paths are not supported.",
+						},
+						file: {
+							type: "string",
+							description: "Path of the file containing the definition, relative to directory.",
+						},
+						symbol: {
+							type: "string",
+							description: "Name, qualified name or definition id (e.g., def-3) of the definition. All matches are returned.",
+						},
+						contextLines: {
+							type: "number",
+							description: "Number of extra lines to include before and after the definition.",
+							default: 0,
+						},
+						maxBodyLines: {
+							type: "number",
+							description: "Cut the definition off after this many lines (e.g., 1 for just the signature line).",
+						},
+						outputFormat: {
+							type: "string",
+							enum: ["markdown", "json"],
+							description: "Output format for the results.",
+							default: "markdown",
+						},
+						excludePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "File path patterns to exclude.",
+						},
+					},
+					required: ["directory", "file", "symbol"],
+				},
+			},
+			{
+				name: "diff_api",
+				description:
+					"Compares the public API (classes, methods, functions, etc. matched by qualified name) of two versions of a project: git refs checked out into a temporary worktree, or saved JSON scan_code outputs. Reports added, removed and changed definitions (parameters, return types, modifiers) and flags breaking changes separately.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
+							type: "string",
+							description:
+								"The absolute path to the project directory (inside a git repository when comparing refs). Relative paths are not supported.",
+						},
+						base: {
+							type: "string",
+							description: "Old version: a git ref (e.g., 'v1.2.0') or the path of a saved JSON scan (relative to directory). Save scans with detailLevel 'detailed' to compare signatures.",
+						},
+						head: {
+							type: "string",
+							description: "New version, same forms as 'base'. Defaults to the current files in directory.",
+						},
+						outputFormat: {
+							type: "string",
+							enum: ["markdown", "json"],
+							description: "Output format for the report.",
+							default: "markdown",
+						},
+						filePatterns: {
+							type: "array",
+							items: { type: "string" },
+							description: "Glob patterns for files to compare.",
+						},
+						includeTypes: {
+							type: "array",
+							items: { type: "string" },
+							description: "Definition types to compare (e.g., class, method, function).",
+						},
+						excludeTypes: {
+							type: "array",
+							items: { type: "string" },
+							description: "Definition types to leave out.",
+						},
+						includePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "Additional file path patterns to include.",
+						},
+						excludePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "File path patterns to exclude.",
+						},
+					},
+					required: ["directory", "base"],
+				},
+			},
+			{
+				name: "find_references",
+				description:
+					"Finds where an identifier is used, based on the syntax trees rather than text search: comments and string literals never match. Returns each occurrence with file, line, column, the enclosing definition and the source line, grouped by kind: definition, import, call, member (property/field access), type (type references, base classes) and reference (anything else, e.g. variable reads).",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
+							type: "string",
+							description:
+								"The absolute path to the directory to search. Relative paths are not supported.",
+						},
+						name: {
+							type: "string",
+							description: "The identifier to look for (a single name such as 'render', not 'View.render').",
+						},
+						kinds: {
+							type: "array",
+							items: { type: "string", enum: ["definition", "import", "call", "member", "type", "reference"] },
+							description: "Only return these kinds of occurrences.",
+						},
+						outputFormat: {
+							type: "string",
+							enum: ["markdown", "json"],
+							description: "Output format for the results.",
+							default: "markdown",
+						},
+						filePatterns: {
+							type: "array",
+							items: { type: "string" },
+							description: "Glob patterns for file extensions to include.",
+						},
+						includePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "Additional file path patterns to include.",
+						},
+						excludePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "File path patterns to exclude.",
+						},
+					},
+					required: ["directory", "name"],
+				},
+			},
+			{
+				name: "get_dependency_graph",
+				description:
+					"Builds the import dependency graph of a directory from import/require, using, use/require_once and Python import statements. Resolves relative paths, tsconfig `paths` aliases and index files, lists external packages per file and reports import cycles at file and package level. Supports JSON, Mermaid and Graphviz DOT output.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
+							type: "string",
+							description:
+								"The absolute path to the directory to scan. Relative paths are not supported.",
+						},
+						level: {
+							type: "string",
+							enum: ["file", "package"],
+							description: "Draw the graph between files or packages (Mermaid/DOT output; JSON contains both).",
+							default: "file",
+						},
+						includeExternal: {
+							type: "boolean",
+							description: "Include external packages as nodes in Mermaid/DOT output.",
+							default: false,
+						},
+						outputFormat: {
+							type: "string",
+							enum: ["json", "mermaid", "dot"],
+							description: "Output format for the graph.",
+							default: "json",
+						},
+						filePatterns: {
+							type: "array",
+							items: { type: "string" },
+							description: "Glob patterns for file extensions to include.",
+						},
+						includePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "Additional file path patterns to include.",
+						},
+						excludePaths: {
+							type: "array",
+							items: { type: "string" },
+							description: "File path patterns to exclude.",
+						},
+					},
+					required: ["directory"],
+				},
+			},
 			{
-				name: "scan_code",
+				name: "get_metrics",
 				description:
-					"Scans a directory for code files (JS, TS, C#, PHP, CSS, respecting .gitignore) and lists definitions (functions, classes, etc.) with line numbers. Supports XML, Markdown, and JSON output.",
+					"Reports code metrics of functions and methods (cyclomatic and cognitive complexity, nesting depth, lines of code, parameter count, Halstead volume, maintainability index) with averages, medians, 90th/95th percentiles and maximums per file, per directory and for the project, plus the top offenders per metric. With thresholds (argument or the project config's `thresholds`), lists the definitions exceeding them (falling below for maintainabilityIndex) and sets `passed` to false.",
 				inputSchema: {
 					type: "object",
 					properties: {
@@ -1412,81 +6601,81 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 							description:
 								"The absolute path to the directory to scan. Relative paths are not supported.",
 						},
-						filePatterns: {
-							type: "array",
-							items: { type: "string" },
-							description:
-								"Glob patterns for file extensions to include.",
-							default: defaultFilePatterns, // Use consistent defaults
+						thresholds: {
+							type: "object",
+							properties: Object.fromEntries(metricNames.map(metric => [metric, { type: "number" }])),
+							additionalProperties: false,
+							description: "Highest allowed value per metric, e.g. { \"complexity\": 10, \"loc\": 80 }.",
+						},
+						top: {
+							type: "number",
+							description: "Number of top offenders listed per metric.",
+							default: DEFAULT_TOP_OFFENDERS,
 						},
 						outputFormat: {
 							type: "string",
-							enum: ["xml", "markdown", "json"],
-							description: "Output format for the results.",
+							enum: ["markdown", "json"],
+							description: "Output format of the report. JSON also lists the metrics of every definition.",
 							default: "markdown",
 						},
-						detailLevel: {
-							type: "string",
-							enum: ["minimal", "standard", "detailed"],
-							description: "Level of detail to include in the output.",
-							default: "standard",
-						},
-						includeTypes: {
+						filePatterns: {
 							type: "array",
 							items: { type: "string" },
-							description: "Element types to include (e.g., class, method).",
+							description: "Glob patterns for file extensions to include.",
 						},
-						excludeTypes: {
+						includeTypes: {
 							type: "array",
 							items: { type: "string" },
-							description: "Element types to exclude.",
+							description: "Definition types to measure (e.g., method).",
 						},
-						includeModifiers: {
+						includePaths: {
 							type: "array",
 							items: { type: "string" },
-							description: "Modifiers to include (e.g., public, private).",
+							description: "Additional file path patterns to include.",
 						},
-						excludeModifiers: {
+						excludePaths: {
 							type: "array",
 							items: { type: "string" },
-							description: "Modifiers to exclude.",
-						},
-						namePattern: {
-							type: "string",
-							description: "Regex pattern to match element names.",
+							description: "File path patterns to exclude.",
 						},
-						excludeNamePattern: {
+					},
+					required: ["directory"],
+				},
+			},
+			{
+				name: "check_ignore",
+				description:
+					"Explains why files are skipped by scans: reports for each path the ignore rule (.gitignore, .git/info/exclude or .codescannerignore file and line) or excludePaths pattern that excludes it, like `git check-ignore -v`.",
+				inputSchema: {
+					type: "object",
+					properties: {
+						directory: {
 							type: "string",
-							description: "Regex pattern to exclude element names.",
+							description:
+								"The absolute path to the project directory. Relative paths are not supported.",
 						},
-						includePaths: {
+						paths: {
 							type: "array",
 							items: { type: "string" },
-							description: "Additional file path patterns to include.",
+							description: "Paths to check, relative to directory.",
 						},
 						excludePaths: {
 							type: "array",
 							items: { type: "string" },
-							description: "File path patterns to exclude.",
+							description: "File path patterns to exclude (defaults to the project config).",
 						},
 					},
-					required: ["directory"],
+					required: ["directory", "paths"],
 				},
 			},
 		],
 	};
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-	if (request.params.name !== "scan_code") {
-		throw new McpError(
-			ErrorCode.MethodNotFound,
-			`Unknown tool: ${request.params.name}`
-		);
-	}
-
-	const args = request.params.arguments;
+type ToolArguments = Record<string, unknown> | undefined;
 
+// Validates the 'directory' argument shared by all tools and returns it
+function getDirectoryArgument(args: ToolArguments): string {
 	// Validate directory argument
 	if (typeof args?.directory !== "string") {
 		throw new McpError(
@@ -1501,79 +6690,361 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 			"Invalid 'directory' argument: Path must be absolute."
 		);
 	}
+	return args.directory;
+}
+
+// Validates the scan settings among the tool arguments (same schema as the config file)
+function getSettingsArguments(args: ToolArguments, names: (keyof ScanSettings)[]): ScanSettings {
+	const values: Record<string, unknown> = {};
+	names.forEach(name => values[name] = args?.[name]);
+	try {
+		return parseScanSettings(values, "arguments");
+	} catch (error: any) {
+		throw new McpError(ErrorCode.InvalidParams, error.message);
+	}
+}
+
+// Resolves tool arguments over the project config and attaches the root's warm index
+async function getScanArgumentsForTool(args: ToolArguments, directory: string, overrides: ScanSettings) {
+	const settings = await resolveScanSettings(directory, overrides);
+	const scanArguments = getScanArguments(settings);
+	scanArguments.scanOptions.warmIndex = getWarmIndex(directory);
+	scanArguments.scanOptions.clearCache = args?.clearCache === true;
+	return { settings, ...scanArguments };
+}
+
+// Wraps plain errors from the scanning logic in an McpError
+function toMcpError(error: any, action: string): any {
+	if (error instanceof Error && !(error instanceof McpError)) {
+		return new McpError(ErrorCode.InternalError, `${action}: ${error.message}`);
+	}
+	return error;
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+	const args = request.params.arguments as ToolArguments;
+	switch (request.params.name) {
+		case "scan_code":
+			return handleScanCode(args);
+		case "get_call_graph":
+			return handleGetCallGraph(args);
+		case "find_references":
+			return handleFindReferences(args);
+		case "get_dependency_graph":
+			return handleGetDependencyGraph(args);
+		case "get_metrics":
+			return handleGetMetrics(args);
+		case "read_definition":
+			return handleReadDefinition(args);
+		case "manage_index":
+			return handleManageIndex(args);
+		case "check_ignore":
+			return handleCheckIgnore(args);
+		case "diff_api":
+			return handleDiffApi(args);
+		default:
+			throw new McpError(
+				ErrorCode.MethodNotFound,
+				`Unknown tool: ${request.params.name}`
+			);
+	}
+});
+
+async function handleGetCallGraph(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	if (typeof args?.symbol !== "string" || !args.symbol) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'symbol' argument (must be a non-empty string)."
+		);
+	}
+	const overrides = getSettingsArguments(args, ['filePatterns', 'includePaths', 'excludePaths', 'useCache', 'concurrency']);
+	const direction: CallGraphDirection =
+		args.direction === "callers" || args.direction === "callees" ? args.direction : "both";
+	const depth = typeof args.depth === "number" && args.depth >= 0 ? Math.floor(args.depth) : 2;
+	const outputFormat: GraphFormat =
+		args.outputFormat === "mermaid" || args.outputFormat === "dot" ? args.outputFormat : "json";
 
-	const filePatterns =
-		args?.filePatterns && Array.isArray(args.filePatterns)
-			? args.filePatterns
-			: defaultFilePatterns; // Use consistent defaults
-	const outputFormat = // Default to markdown unless 'xml' or 'json' is specified
-		args?.outputFormat === "xml" ? "xml" :
-		args?.outputFormat === "json" ? "json" : "markdown";
-	const detailLevel =
-		args?.detailLevel === "minimal" || args?.detailLevel === "detailed" ?
-		args.detailLevel : "standard"; // Default to standard unless specified
-
-	// Build filter options from MCP arguments
-	const filterOptions: FilterOptions = {};
-
-	// Process include-types - split comma-separated values if needed
-	if (args?.includeTypes && Array.isArray(args.includeTypes)) {
-		filterOptions.includeTypes = args.includeTypes.flatMap(t =>
-			typeof t === 'string' && t.includes(',') ? t.split(',') : t
+	try {
+		const { filePatterns, filterOptions, scanOptions } = await getScanArgumentsForTool(args, directory, overrides);
+		// Only path filters apply, definition filters would hide callers/callees
+		const { results } = await scanDirectory(directory, filePatterns, {
+			includePaths: filterOptions.includePaths,
+			excludePaths: filterOptions.excludePaths,
+		}, scanOptions);
+		const graph = buildCallGraph(
+			results,
+			args.symbol,
+			direction,
+			depth,
+			typeof args.file === "string" ? args.file : undefined
 		);
+		return {
+			content: [
+				{
+					type: "text",
+					text: formatCallGraph(graph, outputFormat),
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during get_call_graph execution: ${error}`);
+		throw toMcpError(error, "Failed to build call graph");
 	}
+}
 
-	// Process exclude-types - split comma-separated values if needed
-	if (args?.excludeTypes && Array.isArray(args.excludeTypes)) {
-		filterOptions.excludeTypes = args.excludeTypes.flatMap(t =>
-			typeof t === 'string' && t.includes(',') ? t.split(',') : t
+async function handleFindReferences(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	if (typeof args?.name !== "string" || !args.name) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'name' argument (must be a non-empty string)."
+		);
+	}
+	const kinds = args.kinds;
+	if (kinds !== undefined && (!Array.isArray(kinds) || !kinds.every(kind => referenceKinds.includes(kind)))) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			`Invalid 'kinds' argument (must be an array of ${referenceKinds.join(', ')}).`
 		);
 	}
+	const overrides = getSettingsArguments(args, ['filePatterns', 'includePaths', 'excludePaths']);
+	const outputFormat = args.outputFormat === "json" ? "json" : "markdown";
+
+	try {
+		const { filePatterns, filterOptions, scanOptions } = await getScanArgumentsForTool(args, directory, overrides);
+		const result = await findReferences(directory, args.name, filePatterns, filterOptions, scanOptions, kinds as ReferenceKind[] | undefined);
+		return {
+			content: [
+				{
+					type: "text",
+					text: formatReferences(result, outputFormat),
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during find_references execution: ${error}`);
+		throw toMcpError(error, "Failed to find references");
+	}
+}
+
+async function handleGetDependencyGraph(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	const overrides = getSettingsArguments(args, ['filePatterns', 'includePaths', 'excludePaths']);
+	const level: DependencyLevel = args?.level === "package" ? "package" : "file";
+	const outputFormat: GraphFormat =
+		args?.outputFormat === "mermaid" || args?.outputFormat === "dot" ? args.outputFormat : "json";
+
+	try {
+		const { filePatterns, filterOptions } = getScanArguments(await resolveScanSettings(directory, overrides));
+		const graph = await getDependencyGraph(directory, filePatterns, filterOptions);
+		return {
+			content: [
+				{
+					type: "text",
+					text: formatDependencyGraph(graph, outputFormat, level, args?.includeExternal === true),
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during get_dependency_graph execution: ${error}`);
+		throw toMcpError(error, "Failed to build dependency graph");
+	}
+}
+
+async function handleGetMetrics(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	const overrides = getSettingsArguments(args, ['filePatterns', 'includeTypes', 'includePaths', 'excludePaths', 'thresholds']);
+	const top = typeof args?.top === "number" && args.top >= 0 ? Math.floor(args.top) : DEFAULT_TOP_OFFENDERS;
+	const outputFormat = args?.outputFormat === "json" ? "json" : "markdown";
+
+	try {
+		const { settings, filePatterns, filterOptions, scanOptions } = await getScanArgumentsForTool(args, directory, overrides);
+		const report = await getCodeMetrics(directory, filePatterns, filterOptions, scanOptions, settings.thresholds, top);
+		return {
+			content: [
+				{
+					type: "text",
+					text: formatMetricsReport(report, outputFormat),
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during get_metrics execution: ${error}`);
+		throw toMcpError(error, "Failed to compute metrics");
+	}
+}
 
-	// Process include-modifiers - split comma-separated values if needed
-	if (args?.includeModifiers && Array.isArray(args.includeModifiers)) {
-		filterOptions.includeModifiers = args.includeModifiers.flatMap(m =>
-			typeof m === 'string' && m.includes(',') ? m.split(',') : m
+async function handleManageIndex(args: ToolArguments) {
+	const action = args?.action;
+	if (action !== "list" && action !== "refresh" && action !== "evict") {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'action' argument (must be 'list', 'refresh' or 'evict')."
 		);
 	}
+	// Without a directory, refresh/evict apply to every indexed root
+	const roots = args?.directory === undefined
+		? Array.from(warmIndexes.keys())
+		: [path.resolve(getDirectoryArgument(args))];
+
+	const summary: { [key: string]: any } = { action };
+	if (action === "refresh") {
+		summary.refreshed = {};
+		for (const root of roots) {
+			const index = warmIndexes.get(root);
+			if (!index) continue;
+			index.discoveries.clear();
+			index.files.forEach((_, filePath) => index.pending.add(filePath));
+			summary.refreshed[root] = await refreshWarmIndexFiles(index);
+		}
+	} else if (action === "evict") {
+		summary.evicted = roots.filter(root => evictWarmIndex(root));
+	}
+	summary.memoryLimitBytes = warmIndexMemoryLimit;
+	summary.indexes = describeWarmIndexes();
+
+	return {
+		content: [
+			{
+				type: "text",
+				text: JSON.stringify(summary, null, 2),
+			},
+		],
+	};
+}
 
-	// Process exclude-modifiers - split comma-separated values if needed
-	if (args?.excludeModifiers && Array.isArray(args.excludeModifiers)) {
-		filterOptions.excludeModifiers = args.excludeModifiers.flatMap(m =>
-			typeof m === 'string' && m.includes(',') ? m.split(',') : m
+async function handleReadDefinition(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	if (typeof args?.file !== "string" || !args.file) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'file' argument (must be a non-empty string)."
+		);
+	}
+	if (typeof args.symbol !== "string" || !args.symbol) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'symbol' argument (must be a non-empty string)."
 		);
 	}
+	const outputFormat = args.outputFormat === "json" ? "json" : "markdown";
+	const overrides = getSettingsArguments(args, ['excludePaths']);
+
+	try {
+		const { excludePaths } = await resolveScanSettings(directory, overrides);
+		const outputText = await readDefinition(directory, args.file, args.symbol, outputFormat, {
+			contextLines: typeof args.contextLines === "number" ? args.contextLines : undefined,
+			maxBodyLines: typeof args.maxBodyLines === "number" ? args.maxBodyLines : undefined,
+			excludePaths,
+		});
+		return {
+			content: [
+				{
+					type: "text",
+					text: outputText,
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during read_definition execution: ${error}`);
+		throw toMcpError(error, "Failed to read definition");
+	}
+}
 
-	if (args?.namePattern && typeof args.namePattern === 'string') {
-		filterOptions.namePattern = args.namePattern;
+async function handleDiffApi(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	if (typeof args?.base !== "string" || !args.base) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'base' argument (must be a git ref or saved scan path)."
+		);
+	}
+	if (args.head !== undefined && (typeof args.head !== "string" || !args.head)) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Invalid 'head' argument (must be a git ref or saved scan path)."
+		);
 	}
+	const outputFormat = args.outputFormat === "json" ? "json" : "markdown";
+	const overrides = getSettingsArguments(args, ['filePatterns', 'includeTypes', 'excludeTypes', 'includePaths', 'excludePaths']);
 
-	if (args?.excludeNamePattern && typeof args.excludeNamePattern === 'string') {
-		filterOptions.excludeNamePattern = args.excludeNamePattern;
+	try {
+		const { filePatterns, filterOptions, scanOptions } = await getScanArgumentsForTool(args, directory, overrides);
+		const diff = await diffApi(directory, args.base, args.head, directory, filePatterns, filterOptions, scanOptions);
+		return {
+			content: [
+				{
+					type: "text",
+					text: formatApiDiff(diff, outputFormat),
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during diff_api execution: ${error}`);
+		throw toMcpError(error, "Failed to diff API");
 	}
+}
 
-	// Process include-paths - split comma-separated values if needed
-	if (args?.includePaths && Array.isArray(args.includePaths)) {
-		filterOptions.includePaths = args.includePaths.flatMap(p =>
-			typeof p === 'string' && p.includes(',') ? p.split(',') : p
+async function handleCheckIgnore(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
+	const paths = args?.paths;
+	if (!Array.isArray(paths) || paths.length === 0 || !paths.every(p => typeof p === "string")) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Missing or invalid 'paths' argument (must be a non-empty array of strings)."
 		);
 	}
+	const overrides = getSettingsArguments(args, ['excludePaths']);
+
+	try {
+		const { excludePaths } = await resolveScanSettings(directory, overrides);
+		return {
+			content: [
+				{
+					type: "text",
+					text: await checkIgnore(directory, paths, excludePaths),
+				},
+			],
+		};
+	} catch (error: any) {
+		console.error(`Error during check_ignore execution: ${error}`);
+		throw toMcpError(error, "Failed to check ignore rules");
+	}
+}
+
+async function handleScanCode(args: ToolArguments) {
+	const directory = getDirectoryArgument(args);
 
-	// Process exclude-paths - split comma-separated values if needed
-	if (args?.excludePaths && Array.isArray(args.excludePaths)) {
-		filterOptions.excludePaths = args.excludePaths.flatMap(p =>
-			typeof p === 'string' && p.includes(',') ? p.split(',') : p
+	// Explicit arguments override the project config file
+	const overrides = getSettingsArguments(args, Object.keys(scanSettingsSchema) as (keyof ScanSettings)[]);
+	const cursor = args?.cursor;
+	if (cursor !== undefined && (typeof cursor !== "string" || !cursor)) {
+		throw new McpError(
+			ErrorCode.InvalidParams,
+			"Invalid 'cursor' argument (must be the nextCursor string of a previous scan_code result)."
 		);
 	}
 
 	try {
-        // Call the refactored function
+		const { settings, filePatterns, filterOptions, scanOptions } = await getScanArgumentsForTool(args, directory, overrides);
+		if (settings.outputFormat === "sarif") {
+			const log = await getSarifLog(directory, filePatterns, filterOptions, scanOptions, settings.thresholds, settings.forbiddenPatterns);
+			return { content: [{ type: "text", text: JSON.stringify(log, null, 2) }] };
+		}
+		if (settings.outputFormat === "ctags" || settings.outputFormat === "etags") {
+			const tags = await getTags(directory, filePatterns, settings.outputFormat, filterOptions, scanOptions);
+			return { content: [{ type: "text", text: tags }] };
+		}
 		const outputText = await performScan(
-			args.directory,
+			directory,
 			filePatterns,
-			outputFormat,
-			detailLevel as 'minimal' | 'standard' | 'detailed',
-			filterOptions
+			settings.outputFormat || "markdown",
+			settings.detailLevel || "standard",
+			filterOptions,
+			scanOptions,
+			{ maxTokens: settings.maxTokens, maxChars: settings.maxChars, cursor },
+			settings.docFirstSentence
 		);
 
 		return {
@@ -1586,18 +7057,143 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 		};
 	} catch (error: any) {
 		console.error(`Error during scan_code execution: ${error}`);
-		// If it's an error from performScan, wrap it in McpError
-        if (error instanceof Error && !(error instanceof McpError)) {
-             throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to scan directory: ${error.message}`
-            );
-        }
-        // Re-throw McpErrors or other unexpected errors
-		throw error;
+		// If it's an error from performScan, wrap it in McpError; re-throw McpErrors as-is
+		throw toMcpError(error, "Failed to scan directory");
+	}
+}
+
+// --- MCP Resources ---
+// Outlines of scanned directories as resources, so clients can attach them as context without a
+// scan_code call: code-scanner://<root> is the project outline, code-scanner://<root>/<path> a file outline.
+const RESOURCE_URI_PREFIX = "code-scanner://";
+const resourceRoots = new Set<string>(); // Roots given with --resource-roots
+const resourceSubscriptions = new Set<string>();
+
+interface ResourceEntry {
+	uri: string;
+	name: string;
+	description?: string;
+	mimeType: string;
+}
+
+// Listed resources per root, reused until the root's warm index sees a file system event
+const resourceLists = new Map<string, { index: WarmIndex; changeCount: number; resources: ResourceEntry[] }>();
+
+// Roots from --resource-roots plus every directory with a warm index
+function getResourceRoots(): string[] {
+	return Array.from(new Set([...resourceRoots, ...warmIndexes.keys()])).sort();
+}
+
+function getResourceUri(root: string, relativePath?: string): string {
+	const rootPath = root.replace(/\\/g, '/').replace(/^(?!\/)/, '/');
+	return RESOURCE_URI_PREFIX + encodeURI(relativePath ? `${rootPath}/${relativePath}` : rootPath);
+}
+
+// Splits a resource URI into a root and a file path relative to it (none for the project outline).
+// Only known roots resolve, so a client can't make the server watch and scan arbitrary directories.
+function parseResourceUri(uri: string): { root: string; relativePath?: string } {
+	if (!uri.startsWith(RESOURCE_URI_PREFIX)) {
+		throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+	}
+	const uriPath = decodeURI(uri.slice(RESOURCE_URI_PREFIX.length));
+	// Longest matching root first, so nested roots resolve to their own outlines
+	const roots = getResourceRoots().sort((a, b) => b.length - a.length);
+	for (const root of roots) {
+		const rootUriPath = decodeURI(getResourceUri(root).slice(RESOURCE_URI_PREFIX.length));
+		if (uriPath === rootUriPath) return { root };
+		if (uriPath.startsWith(`${rootUriPath}/`)) return { root, relativePath: uriPath.slice(rootUriPath.length + 1) };
+	}
+	throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}. Scan the directory with a tool or start the server with --resource-roots first.`);
+}
+
+// Scans a root with its project config, through the warm index
+async function getOutlineResults(root: string): Promise<{ [filePath: string]: Definition[] }> {
+	const { filePatterns, filterOptions, scanOptions } = await getScanArgumentsForTool(undefined, root, {});
+	const { results } = await scanDirectory(root, filePatterns, filterOptions, scanOptions);
+	return results;
+}
+
+// Sends updates for subscribed outlines of changed files (and their project) and a list change if files were added or removed
+async function notifyResourceChanges(root: string, changedFiles: string[], filesAddedOrRemoved: boolean): Promise<void> {
+	const uris = changedFiles.map(file => getResourceUri(root, path.relative(root, file).replace(/\\/g, '/')));
+	if (changedFiles.length > 0 || filesAddedOrRemoved) uris.push(getResourceUri(root));
+	try {
+		for (const uri of uris.filter(uri => resourceSubscriptions.has(uri))) {
+			await server.sendResourceUpdated({ uri });
+		}
+		if (filesAddedOrRemoved) await server.sendResourceListChanged();
+	} catch (error: any) {
+		console.error(`Could not send resource notifications for ${root}: ${error.message}`);
+	}
+}
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+	const resources: ResourceEntry[] = [];
+	for (const root of getResourceRoots()) {
+		const listed = resourceLists.get(root);
+		const index = warmIndexes.get(root);
+		if (listed && listed.index === index && listed.changeCount === index.changeCount) {
+			resources.push(...listed.resources);
+			continue;
+		}
+		try {
+			const results = await getOutlineResults(root);
+			const rootResources: ResourceEntry[] = [{
+				uri: getResourceUri(root),
+				name: `Project outline: ${path.basename(root)}`,
+				description: `Definitions of all ${Object.keys(results).length} scanned files in ${root}`,
+				mimeType: "text/markdown",
+			}];
+			Object.keys(results).sort().forEach(relativePath => rootResources.push({
+				uri: getResourceUri(root, relativePath),
+				name: relativePath,
+				description: `Outline of ${relativePath}`,
+				mimeType: "text/markdown",
+			}));
+			resources.push(...rootResources);
+			// The scan above created the warm index if it didn't exist yet
+			const scannedIndex = warmIndexes.get(root);
+			if (scannedIndex) resourceLists.set(root, { index: scannedIndex, changeCount: scannedIndex.changeCount, resources: rootResources });
+		} catch (error: any) {
+			console.error(`Could not list resources of ${root}: ${error.message}`);
+		}
+	}
+	return { resources };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+	const uri = request.params.uri;
+	const { root, relativePath } = parseResourceUri(uri);
+	try {
+		const results = await getOutlineResults(root);
+		let text: string;
+		if (relativePath === undefined) {
+			// Project outline: names only, like the minimal detail level
+			text = formatResultsMarkdown(results, 'minimal', root);
+		} else if (results[relativePath]) {
+			text = formatResultsMarkdown({ [relativePath]: results[relativePath] }, 'standard', root);
+		} else {
+			throw new McpError(ErrorCode.InvalidParams, `No outline for ${relativePath}: the file isn't scanned or has no definitions.`);
+		}
+		return { contents: [{ uri, mimeType: "text/markdown", text }] };
+	} catch (error: any) {
+		console.error(`Error reading resource ${uri}: ${error}`);
+		throw toMcpError(error, "Failed to read resource");
 	}
 });
 
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+	const { root } = parseResourceUri(request.params.uri);
+	getWarmIndex(root); // Changes are only noticed for watched roots
+	resourceSubscriptions.add(request.params.uri);
+	return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+	resourceSubscriptions.delete(request.params.uri);
+	return {};
+});
+
 // --- Server Start --- (Conditional)
 async function startMcpServer() {
 	const transport = new StdioServerTransport();
@@ -1624,12 +7220,17 @@ async function startMcpServer() {
 }
 
 // --- Main Execution Logic ---
-(async () => {
-	// Try running as CLI first
-	const cliModeHandled = await runCli();
-
-	// If CLI mode was not triggered (no --directory), start the MCP server
-	if (!cliModeHandled) {
-		await startMcpServer();
-	}
-})();
+if (!isMainThread && workerData?.role === PARSE_WORKER_ROLE) {
+	// Loaded as a parse worker by parseFilesInWorkers
+	runParseWorker();
+} else {
+	(async () => {
+		// Try running as CLI first
+		const cliModeHandled = await runCli();
+
+		// If CLI mode was not triggered (no --directory), start the MCP server
+		if (!cliModeHandled) {
+			await startMcpServer();
+		}
+	})();
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+// Compares the --metrics output for the fixture files against expected.json.
+// Run through `npm test`, which builds first. Exits non-zero on any mismatch.
+import { execFileSync } from 'child_process';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const cli = path.resolve(here, '../../build/index.js');
+const fixtures = path.join(here, 'fixtures');
+const expected = JSON.parse(readFileSync(path.join(here, 'expected.json'), 'utf8'));
+
+const output = execFileSync(process.execPath, [cli, '-d', fixtures, '--metrics', '-f', 'json', '--no-cache'], {
+	encoding: 'utf8',
+	stdio: ['ignore', 'pipe', 'ignore'],
+});
+const report = JSON.parse(output);
+
+const failures = [];
+// Keyed by name and start line, so overloads with the same qualified name stay apart
+const actual = {};
+for (const def of report.definitions) {
+	const key = `${def.name}:${def.startLine}`;
+	actual[def.file] ??= {};
+	if (actual[def.file][key]) failures.push(`${def.file} ${key}: reported more than once`);
+	actual[def.file][key] = def.metrics;
+}
+
+for (const [file, definitions] of Object.entries(expected)) {
+	for (const [key, metrics] of Object.entries(definitions)) {
+		const got = actual[file]?.[key];
+		if (!got) {
+			failures.push(`${file} ${key}: missing from output`);
+			continue;
+		}
+		for (const [metric, value] of Object.entries(metrics)) {
+			if (got[metric] !== value) failures.push(`${file} ${key}: ${metric} expected ${value}, got ${got[metric]}`);
+		}
+	}
+}
+for (const [file, definitions] of Object.entries(actual)) {
+	for (const key of Object.keys(definitions)) {
+		if (!expected[file]?.[key]) failures.push(`${file} ${key}: not listed in expected.json`);
+	}
+}
+
+if (failures.length > 0) {
+	console.error(`Metric fixtures: ${failures.length} mismatch(es)`);
+	failures.forEach(failure => console.error(`  ${failure}`));
+	process.exit(1);
+}
+const count = Object.values(expected).reduce((sum, definitions) => sum + Object.keys(definitions).length, 0);
+console.log(`Metric fixtures: ${count} definitions in ${Object.keys(expected).length} files match`);
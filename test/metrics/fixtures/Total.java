@@ -0,0 +1,15 @@
+class Total { int total(int[] xs) {
+  int s = 0;
+  for (int x : xs) {
+    if (x > 0 && x < 10 && x != 5 || x == 100) { s += x; }
+    else if (x < 0) { s -= x; }
+    else { s = s != 0 ? s : 1; }
+  }
+  return s;
+}
+
+  // Overload: same qualified name, different start line
+  int total(int a, int b) {
+    return a > 0 && b > 0 ? a + b : 0;
+  }
+}
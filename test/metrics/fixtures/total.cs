@@ -0,0 +1,9 @@
+class Totals { int Total(int[] xs) {
+  int s = 0;
+  foreach (var x in xs) {
+    if (x > 0 && x < 10 && x != 5 || x == 100) { s += x; }
+    else if (x < 0) { s -= x; }
+    else { s = s != 0 ? s : 1; }
+  }
+  return s;
+} }
@@ -0,0 +1,14 @@
+package fixtures
+func total(xs []int) int {
+	s := 0
+	for _, x := range xs {
+		if x > 0 && x < 10 && x != 5 || x == 100 {
+			s += x
+		} else if x < 0 {
+			s -= x
+		} else {
+			if s == 0 { s = 1 }
+		}
+	}
+	return s
+}
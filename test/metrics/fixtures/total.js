@@ -0,0 +1,24 @@
+export function label(kind, fallback) {
+  switch (kind) {
+    case 'a':
+      return 'first';
+    case 'b':
+      return 'second';
+    default:
+      return fallback ?? 'unknown';
+  }
+}
+
+export function firstPositive(rows) {
+  outer: for (const row of rows) {
+    for (const value of row) {
+      if (value > 0) {
+        return value;
+      }
+      if (value === null) {
+        continue outer;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,10 @@
+<?php
+function total($xs) {
+  $s = 0;
+  foreach ($xs as $x) {
+    if ($x > 0 && $x < 10 && $x != 5 || $x == 100) { $s += $x; }
+    elseif ($x < 0) { $s -= $x; }
+    else { $s = $s ? $s : 1; }
+  }
+  return $s;
+}
@@ -0,0 +1,10 @@
+def total(xs):
+    s = 0
+    for x in xs:
+        if x > 0 and x < 10 and x != 5 or x == 100:
+            s += x
+        elif x < 0:
+            s -= x
+        else:
+            s = s if s else 1
+    return s
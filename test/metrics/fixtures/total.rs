@@ -0,0 +1,13 @@
+fn total(xs: &[i32]) -> i32 {
+    let mut s = 0;
+    for x in xs {
+        if *x > 0 && *x < 10 && *x != 5 || *x == 100 {
+            s += x;
+        } else if *x < 0 {
+            s -= x;
+        } else {
+            s = match s { 0 => 1, _ => s };
+        }
+    }
+    s
+}
@@ -0,0 +1,26 @@
+export function total(xs: number[]): number {
+  let s = 0;
+  for (const x of xs) {
+    if (x > 0 && x < 10 && x !== 5 || x === 100) {
+      s += x;
+    } else if (x < 0) {
+      s -= x;
+    } else {
+      s = s ? s : 1;
+    }
+  }
+  return s;
+}
+
+export function factorial(n: number): number {
+  return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+export const sign = (x: number): number => {
+  if (x > 0) {
+    return 1;
+  } else if (x < 0) {
+    return -1;
+  }
+  return 0;
+};